@@ -29,25 +29,98 @@ test("nothing to empty text", () => {
 
 test("full text link", () => {
     const result = addAutoLinks("http://google.com/");
-    expect(result).toEqual([{ url: "http://google.com/", start: 0, end: 18 }]);
+    expect(result).toEqual([
+        {
+            kind: "web",
+            url: "http://google.com/",
+            start: 0,
+            end: 18,
+            text: "http://google.com/",
+            schemeAdded: false,
+            parts: { scheme: "http", host: "google.com", path: "/" },
+        },
+    ]);
 });
 
 test("full text smart", () => {
     const result = addAutoLinks("google.com");
-    expect(result).toEqual([{ url: "http://google.com", start: 0, end: 10 }]);
+    expect(result).toEqual([
+        {
+            kind: "web",
+            url: "http://google.com",
+            start: 0,
+            end: 10,
+            text: "google.com",
+            schemeAdded: true,
+            parts: { scheme: "http", host: "google.com", path: "" },
+        },
+    ]);
 });
 
 test("inner text link", () => {
     const result = addAutoLinks("x http://google.com/ x");
-    expect(result).toEqual([{ url: "http://google.com", start: 2, end: 19 }]);
+    expect(result).toEqual([
+        {
+            kind: "web",
+            url: "http://google.com",
+            start: 2,
+            end: 19,
+            text: "http://google.com",
+            schemeAdded: false,
+            parts: { scheme: "http", host: "google.com", path: "" },
+        },
+    ]);
 });
 
 test("full text email", () => {
     const result = addAutoLinks("test@example.com");
-    expect(result).toEqual([{ url: "mailto:test@example.com", start: 0, end: 16 }]);
+    expect(result).toEqual([
+        {
+            kind: "email",
+            url: "mailto:test@example.com",
+            start: 0,
+            end: 16,
+            text: "test@example.com",
+            schemeAdded: true,
+            parts: { localPart: "test", domain: "example.com" },
+        },
+    ]);
 });
 
 test("inner text email", () => {
     const result = addAutoLinks("x test@example.com x");
-    expect(result).toEqual([{ url: "mailto:test@example.com", start: 2, end: 18 }]);
+    expect(result).toEqual([
+        {
+            kind: "email",
+            url: "mailto:test@example.com",
+            start: 2,
+            end: 18,
+            text: "test@example.com",
+            schemeAdded: true,
+            parts: { localPart: "test", domain: "example.com" },
+        },
+    ]);
+});
+
+test("url parts", () => {
+    const result = addAutoLinks("https://user:pw@example.com:8080/a/b?x=1&y=2#top");
+    expect(result).toEqual([
+        {
+            kind: "web",
+            url: "https://user:pw@example.com:8080/a/b?x=1&y=2#top",
+            start: 0,
+            end: 48,
+            text: "https://user:pw@example.com:8080/a/b?x=1&y=2#top",
+            schemeAdded: false,
+            parts: {
+                scheme: "https",
+                userInfo: "user:pw",
+                host: "example.com",
+                port: 8080,
+                path: "/a/b",
+                query: "x=1&y=2",
+                fragment: "top",
+            },
+        },
+    ]);
 });
@@ -0,0 +1,102 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { addAutoLinks, linkify } from "../src/linkify";
+import { setLogError } from "../src/log";
+
+const CONTROLS = [
+    "\u202A",
+    "\u202B",
+    "\u202C",
+    "\u202D",
+    "\u202E",
+    "\u2066",
+    "\u2067",
+    "\u2068",
+    "\u2069",
+];
+
+afterEach(() => {
+    setLogError(() => {});
+});
+
+describe("reject", () => {
+    test.each(CONTROLS)("finds no link in a text with %j", (control) => {
+        const text = "see example.com " + control;
+        expect(linkify(text)).toEqual([]);
+        expect(linkify(text, { bidiControls: "reject" })).toEqual([]);
+        expect(addAutoLinks(text)).toBe(false);
+    });
+
+    test("logs the control", () => {
+        const log = vi.fn();
+        setLogError(log);
+        linkify("see example.com \u2067");
+        expect(log).toHaveBeenCalledWith("Unsupported character for applying links: u2067");
+    });
+});
+
+describe("strip", () => {
+    test("maps the ranges back to the text", () => {
+        const text = "\u2067مرحبا\u2069 see exa\u202Emple.com or email@android.com";
+        const links = linkify(text, { bidiControls: "strip" });
+        expect(links.map((link) => [link.url, link.start, link.end, link.text])).toEqual([
+            ["http://example.com", 12, 24, "exa\u202Emple.com"],
+            ["mailto:email@android.com", 28, 45, "email@android.com"],
+        ]);
+        for (const link of links) {
+            expect(text.substring(link.start, link.end)).toEqual(link.text);
+        }
+    });
+
+    test("doesn't include the controls around a link", () => {
+        const [link] = linkify("\u2066http://example.com\u2069", { bidiControls: "strip" });
+        expect([link.start, link.end, link.text]).toEqual([1, 19, "http://example.com"]);
+    });
+
+    test("is accepted by addAutoLinks", () => {
+        const links = addAutoLinks("call \u202B+1 650-555-1212\u202C", undefined, {
+            bidiControls: "strip",
+        });
+        expect(links && links.map((link) => [link.url, link.text])).toEqual([
+            ["tel:+16505551212", "+1 650-555-1212"],
+        ]);
+    });
+});
+
+describe("exclude", () => {
+    test("keeps the links without controls", () => {
+        const text = "\u2067مرحبا\u2069 see example.com";
+        expect(linkify(text, { bidiControls: "exclude" })).toMatchObject([
+            { url: "http://example.com", start: 12, end: 23 },
+        ]);
+    });
+
+    test("drops the links that contain a control", () => {
+        const text = "see http://moc.\u202Eelgoog.com and android.com";
+        expect(linkify(text, { bidiControls: "exclude" }).map((link) => link.url)).toEqual([
+            "http://android.com",
+        ]);
+    });
+
+    test("drops the links next to a control", () => {
+        const text = "see example.com\u202E here, \u2067android.com and google.com";
+        expect(linkify(text, { bidiControls: "exclude" }).map((link) => link.url)).toEqual([
+            "http://google.com",
+        ]);
+    });
+});
@@ -0,0 +1,181 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { createDetectorRegistry, type Detector } from "../src/detectors";
+import { EMAIL_ADDRESSES, linkify, MENTIONS, WEB_URLS } from "../src/linkify";
+
+const TICKETS: Detector = {
+    name: "ticket",
+    pattern: /\b[A-Z][A-Z0-9]+-\d+\b/,
+    transformFilter: (match) => "https://tracker.example/browse/" + match[0],
+};
+
+const COMMITS: Detector = {
+    name: "commit",
+    *scan(text) {
+        for (const m of text.matchAll(/\b[0-9a-f]{7,40}\b/g)) {
+            yield { start: m.index, end: m.index + m[0].length };
+        }
+    },
+    transformFilter: (match) => "https://git.example/commit/" + match[0],
+};
+
+function find(text: string, registry = createDetectorRegistry()) {
+    return linkify(text, { registry }).map((link) => [link.text, link.url]);
+}
+
+describe("custom detectors", () => {
+    test("pattern detectors find links of the custom kind", () => {
+        const registry = createDetectorRegistry();
+        registry.register(TICKETS);
+        const links = linkify("Fixed in PROJ-1234, see www.android.com", { registry });
+        expect(links.map((link) => [link.kind, link.text, link.url])).toEqual([
+            ["custom", "PROJ-1234", "https://tracker.example/browse/PROJ-1234"],
+            ["web", "www.android.com", "http://www.android.com"],
+        ]);
+        expect(links[0]).toMatchObject({ detector: "ticket", schemeAdded: false });
+    });
+
+    test("scan detectors find links from ranges", () => {
+        const registry = createDetectorRegistry();
+        registry.register(COMMITS);
+        expect(find("Reverted 4f2a9c1 and deadbeef", registry)).toEqual([
+            ["4f2a9c1", "https://git.example/commit/4f2a9c1"],
+            ["deadbeef", "https://git.example/commit/deadbeef"],
+        ]);
+    });
+
+    test("invalid ranges of scan detectors are ignored", () => {
+        const registry = createDetectorRegistry(0);
+        registry.register({
+            name: "ranges",
+            scan: () => [
+                { start: -1, end: 2 },
+                { start: 3, end: 3 },
+                { start: 2, end: 100 },
+                { start: 0, end: 2 },
+            ],
+        });
+        expect(find("abcd", registry)).toEqual([["ab", "ab"]]);
+    });
+
+    test("schemes are normalized", () => {
+        const registry = createDetectorRegistry(0);
+        registry.register({
+            name: "orders",
+            pattern: /(?:ORDER:)?#\d{6}/i,
+            schemes: ["order:"],
+            matchFilter: (s, start) => s.charAt(start - 1) != "x",
+        });
+        expect(find("#123456, Order:#654321, x#111111", registry)).toEqual([
+            ["#123456", "order:#123456"],
+            ["Order:#654321", "order:#654321"],
+        ]);
+    });
+
+    test("detectors can be unregistered and disabled", () => {
+        const registry = createDetectorRegistry(0);
+        registry.register(TICKETS);
+        registry.register(COMMITS);
+        expect(registry.detectors.map((detector) => detector.name)).toEqual(["ticket", "commit"]);
+        registry.setEnabled("ticket", false);
+        expect(find("PROJ-1 abcdef0", registry)).toEqual([
+            ["abcdef0", "https://git.example/commit/abcdef0"],
+        ]);
+        expect(registry.unregister("commit")).toBe(true);
+        expect(registry.unregister("commit")).toBe(false);
+        expect(find("PROJ-1 abcdef0", registry)).toEqual([]);
+    });
+
+    test("invalid registrations are rejected", () => {
+        const registry = createDetectorRegistry();
+        registry.register(TICKETS);
+        expect(() => registry.register(TICKETS)).toThrow(TypeError);
+        expect(() => registry.register({ ...TICKETS, name: "web" })).toThrow(TypeError);
+        expect(() => registry.register({ name: "none" })).toThrow(TypeError);
+        expect(() => registry.register({ ...COMMITS, pattern: /a/ })).toThrow(TypeError);
+        expect(() => registry.unregister("web")).toThrow(TypeError);
+        expect(() => registry.setEnabled("unknown", true)).toThrow(TypeError);
+        expect(() => registry.setPriority("unknown", 1)).toThrow(TypeError);
+    });
+});
+
+describe("built-in detectors", () => {
+    test("are enabled as in the mask", () => {
+        expect(createDetectorRegistry().mask).toBe(0x07);
+        expect(createDetectorRegistry(WEB_URLS | MENTIONS).mask).toBe(WEB_URLS | MENTIONS);
+    });
+
+    test("can be turned on and off", () => {
+        const registry = createDetectorRegistry(WEB_URLS);
+        registry.setEnabled("email", true);
+        registry.setEnabled("web", false);
+        expect(registry.mask).toBe(EMAIL_ADDRESSES);
+        expect(find("android.com or test@android.com", registry)).toEqual([
+            ["test@android.com", "mailto:test@android.com"],
+        ]);
+    });
+
+    test("the registry takes precedence over the mask", () => {
+        const registry = createDetectorRegistry(EMAIL_ADDRESSES);
+        expect(linkify("android.com", { registry, mask: WEB_URLS })).toEqual([]);
+    });
+});
+
+describe("priorities", () => {
+    const text = "See https://tracker.example/PROJ-1234 now";
+
+    test("the longest link is kept among equal priorities", () => {
+        const registry = createDetectorRegistry();
+        registry.register(TICKETS);
+        expect(find(text, registry)).toEqual([
+            ["https://tracker.example/PROJ-1234", "https://tracker.example/PROJ-1234"],
+        ]);
+    });
+
+    test("a link of higher priority is kept over a longer one", () => {
+        const registry = createDetectorRegistry();
+        registry.register({ ...TICKETS, priority: 1 });
+        expect(find(text, registry)).toEqual([
+            ["PROJ-1234", "https://tracker.example/browse/PROJ-1234"],
+        ]);
+    });
+
+    test("built-in detectors can be given a priority", () => {
+        const registry = createDetectorRegistry();
+        registry.register({ ...TICKETS, priority: 1 });
+        registry.setPriority("web", 2);
+        expect(registry.priorityOf(linkify("a.com")[0])).toBe(2);
+        expect(find(text, registry)).toEqual([
+            ["https://tracker.example/PROJ-1234", "https://tracker.example/PROJ-1234"],
+        ]);
+    });
+
+    test("a link of lower priority is removed after a contained one", () => {
+        const registry = createDetectorRegistry(0);
+        registry.register({ name: "a", pattern: /aa/, priority: 0 });
+        registry.register({ name: "long", pattern: /a{4}b/, priority: 1 });
+        registry.register({ name: "b", pattern: /bc/, priority: 2 });
+        expect(find("aaaabc", registry)).toEqual([["bc", "bc"]]);
+    });
+
+    test("overlaps can still be kept", () => {
+        const registry = createDetectorRegistry();
+        registry.register({ ...TICKETS, priority: 1 });
+        expect(linkify(text, { registry, overlaps: "keep" })).toHaveLength(2);
+    });
+});
@@ -0,0 +1,179 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { createDetectorRegistry } from "../src/detectors";
+import {
+    EMAIL_ADDRESSES,
+    explainLinks,
+    HASHTAGS,
+    linkify,
+    type LinkifyOptions,
+    WEB_URLS,
+} from "../src/linkify";
+import { TAG_URLS } from "./tags";
+import { setLogError, setLogger } from "../src/log";
+
+function fates(text: string, options?: LinkifyOptions) {
+    return explainLinks(text, options).candidates.map(({ kind, text, fate }) => [kind, text, fate]);
+}
+
+describe("explainLinks", () => {
+    test("returns the links of linkify", () => {
+        const text = "see example.com, email@android.com or call 555-1212";
+        expect(explainLinks(text).links).toEqual(linkify(text));
+        expect(fates(text)).toEqual([
+            ["web", "example.com", "linked"],
+            ["email", "email@android.com", "linked"],
+            ["web", "android.com", "url-filter"],
+            ["phone", "555-1212", "linked"],
+        ]);
+    });
+
+    test("reports the domains of email addresses", () => {
+        expect(fates("email@android.com")).toEqual([
+            ["email", "email@android.com", "linked"],
+            ["web", "android.com", "url-filter"],
+        ]);
+    });
+
+    test("reports trimmed punctuation", () => {
+        const [candidate] = explainLinks("see (example.co/foo).").candidates;
+        expect(candidate).toMatchObject({
+            kind: "web",
+            start: 5,
+            trimmed: { start: 5, end: 19 },
+            fate: "linked",
+        });
+        expect(candidate.end).toBeGreaterThan(19);
+        expect(explainLinks("see example.co/foo").candidates[0].trimmed).toBeUndefined();
+    });
+
+    test("reports rejections of the match filter", () => {
+        const options: LinkifyOptions = {
+            mask: 0,
+            pattern: /\d+/,
+            matchFilter: (s, start, end) => end - start > 2,
+        };
+        expect(fates("12 345", options)).toEqual([
+            ["custom", "12", "match-filter"],
+            ["custom", "345", "linked"],
+        ]);
+    });
+
+    test("reports the link a pruned candidate overlaps", () => {
+        const { candidates } = explainLinks("test@example.com", {
+            mask: EMAIL_ADDRESSES,
+            pattern: /example/,
+        });
+        expect(candidates).toEqual([
+            { kind: "email", start: 0, end: 16, text: "test@example.com", fate: "linked" },
+            {
+                kind: "custom",
+                start: 5,
+                end: 12,
+                text: "example",
+                fate: "overlap",
+                by: { kind: "email", start: 0, end: 16, text: "test@example.com" },
+            },
+        ]);
+    });
+
+    test("reports overlaps with a detector of higher priority", () => {
+        const registry = createDetectorRegistry(WEB_URLS);
+        registry.register({ name: "ticket", pattern: /PROJ-\d+/, priority: 1 });
+        const { candidates } = explainLinks("example.com/PROJ-1", { registry });
+        expect(candidates).toMatchObject([
+            {
+                kind: "web",
+                fate: "overlap",
+                by: { kind: "custom", start: 12, end: 18, text: "PROJ-1" },
+            },
+            { kind: "custom", detector: "ticket", fate: "linked" },
+        ]);
+    });
+
+    test("reports the tags that aren't linked", () => {
+        expect(fates("#1 #tag example.com/#frag", { ...TAG_URLS, mask: HASHTAGS })).toEqual([
+            ["hashtag", "#1", "no-letter"],
+            ["hashtag", "#tag", "linked"],
+            ["hashtag", "#frag", "inside-link"],
+        ]);
+        expect(
+            explainLinks("example.com/#frag", { ...TAG_URLS, mask: HASHTAGS }).candidates[0].by,
+        ).toEqual({
+            kind: "web",
+            start: 0,
+            end: 17,
+            text: "example.com/#frag",
+        });
+    });
+
+    test("reports candidates with bidi controls", () => {
+        expect(fates("exa\u202Emple.com", { bidiControls: "exclude" })).toEqual([
+            ["web", "exa\u202Emple.com", "bidi-control"],
+        ]);
+        expect(fates("a@exa\u202Emple.com x", { bidiControls: "strip" })).toEqual([
+            ["email", "a@exa\u202Emple.com", "linked"],
+            ["web", "exa\u202Emple.com", "url-filter"],
+        ]);
+    });
+
+    test("reports a text rejected as a whole", () => {
+        expect(explainLinks("example.com \u2067")).toEqual({
+            links: [],
+            candidates: [],
+            rejected: {
+                code: "unsupported-character",
+                detail: "U+2067",
+                message: "Unsupported character for applying links: u2067",
+            },
+        });
+        expect(explainLinks("example.com").rejected).toBeUndefined();
+    });
+});
+
+describe("logger", () => {
+    afterEach(() => {
+        setLogger(undefined);
+        setLogError(undefined);
+    });
+
+    test("receives structured entries", () => {
+        const logger = vi.fn();
+        const logError = vi.fn();
+        setLogger(logger);
+        setLogError(logError);
+        linkify("example.com \u202E");
+        expect(logger).toHaveBeenCalledWith({
+            code: "unsupported-character",
+            detail: "U+202E",
+            message: "Unsupported character for applying links: u202E",
+        });
+        expect(logError).toHaveBeenCalledWith("Unsupported character for applying links: u202E");
+    });
+
+    test("is told about hosts that can't be converted to ASCII", () => {
+        const logger = vi.fn();
+        setLogger(logger);
+        const host = "ü".repeat(70) + ".com";
+        const [link] = linkify("http://" + host, { idn: true });
+        expect(link.url).toBe("http://" + host);
+        expect(logger).toHaveBeenCalledWith(
+            expect.objectContaining({ code: "invalid-host", detail: host }),
+        );
+    });
+});
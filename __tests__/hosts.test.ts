@@ -0,0 +1,136 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { addAutoLinks, linkify, WEB_URLS } from "../src/linkify";
+import type { LinkifyOptions } from "../src/linkify";
+
+function urls(text: string, options?: LinkifyOptions) {
+    return linkify(text, { mask: WEB_URLS, ...options }).map((link) => [link.text, link.url]);
+}
+
+describe("IPv6 literals", () => {
+    test.each([
+        "http://[2001:db8::1]:8080/status",
+        "http://[::1]/",
+        "https://[::]",
+        "http://[2001:db8:85a3:0:0:8a2e:370:7334]/",
+        "http://[2001:db8:85a3::8a2e:370:7334]:443",
+        "http://[::ffff:192.0.2.128]/x",
+        "http://[fe80::1%25eth0]:8080/",
+        "http://[fe80::1%eth0]/",
+        "http://[v1.fe80::a+en1]/",
+        "http://user:pass@[::1]:8080/",
+    ])("finds %s", (url) => {
+        expect(urls("see " + url + " now")).toEqual([[url, url]]);
+    });
+
+    test("are found without a scheme", () => {
+        expect(urls("on [2001:db8::1]:8080/status, or [::1]")).toEqual([
+            ["[2001:db8::1]:8080/status", "http://[2001:db8::1]:8080/status"],
+            ["[::1]", "http://[::1]"],
+        ]);
+    });
+
+    test.each([
+        "http://[2001:db8::1::2]/",
+        "http://[12345::1]/",
+        "http://[1:2:3:4:5:6:7:8:9]/",
+        "http://[::1.2.3.256]/",
+    ])("doesn't find the invalid address of %s", (url) => {
+        expect(urls(url).map(([text]) => text)).not.toContain(url);
+    });
+
+    test("aren't found in code", () => {
+        expect(urls("a[::1] and list[::]")).toEqual([]);
+    });
+
+    test("keep their brackets in the host", () => {
+        const [link] = linkify("http://[2001:db8::1]:8080/status?x=1", { mask: WEB_URLS });
+        expect(link.kind == "web" && link.parts).toEqual({
+            scheme: "http",
+            userInfo: undefined,
+            host: "[2001:db8::1]",
+            port: 8080,
+            path: "/status",
+            query: "x=1",
+            fragment: undefined,
+        });
+    });
+
+    test("are found by addAutoLinks", () => {
+        const links = addAutoLinks("(http://[::1]:8080) ok", WEB_URLS);
+        expect(links !== false && links.map((link) => link.text)).toEqual(["http://[::1]:8080"]);
+    });
+
+    test("closing brackets after them are trimmed", () => {
+        expect(urls("[see http://[::1]/a]")).toEqual([["http://[::1]/a", "http://[::1]/a"]]);
+    });
+});
+
+describe("intranet hosts", () => {
+    test("aren't found by default", () => {
+        expect(urls("localhost:3000 and jenkins/job/42")).toEqual([]);
+    });
+
+    test("localhost is found with a port or a path", () => {
+        expect(
+            urls(
+                "run localhost:3000, open localhost/admin or LocalHost:8080/x?y=1. Not localhost.",
+                {
+                    intranetHosts: true,
+                },
+            ),
+        ).toEqual([
+            ["localhost:3000", "http://localhost:3000"],
+            ["localhost/admin", "http://localhost/admin"],
+            ["LocalHost:8080/x?y=1", "http://LocalHost:8080/x?y=1"],
+        ]);
+    });
+
+    test("configured hosts are found with a port or a path", () => {
+        expect(
+            urls("see jenkins/job/42 and wiki:8080, ask jenkins? localhost:1", {
+                intranetHosts: ["jenkins", "wiki"],
+            }),
+        ).toEqual([
+            ["jenkins/job/42", "http://jenkins/job/42"],
+            ["wiki:8080", "http://wiki:8080"],
+            ["localhost:1", "http://localhost:1"],
+        ]);
+    });
+
+    test("aren't found as part of another host or after a scheme", () => {
+        expect(
+            urls("build.jenkins/x my-jenkins/x ftp://jenkins/x", { intranetHosts: ["jenkins"] }),
+        ).toEqual([]);
+    });
+
+    test("aren't found in email addresses", () => {
+        expect(urls("root@localhost:25", { intranetHosts: true })).toEqual([]);
+    });
+
+    test("need a scheme to prefix", () => {
+        expect(
+            urls("localhost:3000", { intranetHosts: true, urlSchemes: [{ name: "http" }] }),
+        ).toEqual([]);
+    });
+
+    test("invalid hosts throw", () => {
+        expect(() => urls("x", { intranetHosts: ["a.b"] })).toThrow(TypeError);
+        expect(() => urls("x", { intranetHosts: ["-a"] })).toThrow(TypeError);
+    });
+});
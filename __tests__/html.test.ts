@@ -0,0 +1,88 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import { toHtml } from "../src/html";
+import { linkify } from "../src/linkify";
+
+function render(text: string, options?: Parameters<typeof toHtml>[2]) {
+    return toHtml(text, linkify(text), options);
+}
+
+test("escapes text around links", () => {
+    expect(render("<b>google.com</b> & co")).toEqual(
+        '&lt;b&gt;<a href="http://google.com" rel="noopener noreferrer nofollow">google.com</a>&lt;/b&gt; &amp; co',
+    );
+});
+
+test("no links", () => {
+    expect(render(`"it's" <here>`)).toEqual("&quot;it&#39;s&quot; &lt;here&gt;");
+});
+
+test("target, rel, class and attributes per kind", () => {
+    const html = render("google.com test@example.com", {
+        target: "_blank",
+        rel: "",
+        className: { web: "web-link" },
+        attributes: { email: { "data-kind": "mail" } },
+    });
+    expect(html).toEqual(
+        '<a href="http://google.com" target="_blank" class="web-link">google.com</a> ' +
+            '<a href="mailto:test@example.com" target="_blank" data-kind="mail">test@example.com</a>',
+    );
+});
+
+test("custom anchor text and veto", () => {
+    const text = "example.com/a/very/long/path test@example.com";
+    const html = render(text, {
+        rel: "",
+        renderAnchor: (link, anchor) => {
+            if (link.kind == "email") {
+                return false;
+            }
+            return { ...anchor, text: anchor.text.substring(0, 15) + "…" };
+        },
+    });
+    expect(html).toEqual(
+        '<a href="http://example.com/a/very/long/path">example.com/a/v…</a> test@example.com',
+    );
+});
+
+test("unsafe schemes are rendered as text", () => {
+    const text = "click javascript:alert(1) or here";
+    for (const url of [
+        "javascript:alert(1)",
+        " JavaScript:alert(1)",
+        "java\tscript:x",
+        "data:,x",
+    ]) {
+        const links = linkify(text, {
+            mask: 0,
+            pattern: /javascript:\S+/,
+            transformFilter: () => url,
+        });
+        expect(toHtml(text, links)).toEqual("click javascript:alert(1) or here");
+    }
+});
+
+test("attribute values are escaped and names validated", () => {
+    expect(render("google.com", { rel: "", target: '"><script>' })).toEqual(
+        '<a href="http://google.com" target="&quot;&gt;&lt;script&gt;">google.com</a>',
+    );
+    expect(() => render("google.com", { attributes: { web: { "on click": "x" } } })).toThrow(
+        TypeError,
+    );
+});
@@ -0,0 +1,129 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { applyEdit, relinkify } from "../src/incremental";
+import { addAutoLinks, type AutoLinkOptions, WEB_URLS } from "../src/linkify";
+import { random } from "./random";
+
+// Pieces of text that often make or break links when inserted next to each other
+const PIECES = [
+    "example.com",
+    "http://",
+    "www.",
+    "android",
+    ".com",
+    "/path?q=1",
+    "email",
+    "@",
+    "a@b.cd",
+    "+1",
+    "650",
+    "555",
+    "1212",
+    "(650)",
+    "-",
+    ".",
+    ",",
+    ":",
+    "8080",
+    "localhost",
+    "[::1]",
+    "😀",
+    "é",
+    " ",
+    "  ",
+    "\n",
+    "\t",
+    "\u202E",
+    "\u2066",
+];
+
+function randomEdit(text: string, next: () => number) {
+    const offset = Math.floor(next() * (text.length + 1));
+    const deleted = next() < 0.5 ? 0 : Math.floor(next() * Math.min(6, text.length - offset + 1));
+    let inserted = "";
+    for (let n = Math.floor(next() * 3); n > 0; n--) {
+        inserted += PIECES[Math.floor(next() * PIECES.length)];
+    }
+    return { offset, deleted, inserted };
+}
+
+function fullScan(text: string, mask?: number, options?: AutoLinkOptions) {
+    return addAutoLinks(text, mask, options) || [];
+}
+
+describe("relinkify", () => {
+    test.each([
+        ["the default options", undefined, undefined],
+        ["stripped bidi controls", undefined, { bidiControls: "strip" }],
+        ["excluded bidi controls", undefined, { bidiControls: "exclude" }],
+        ["intranet hosts", WEB_URLS, { intranetHosts: true, bidiControls: "exclude" }],
+    ] as const)("finds the same links as a full scan with %s", (_, mask, options) => {
+        const next = random(7);
+        for (let run = 0; run < 20; run++) {
+            let text = "";
+            let links = fullScan(text, mask, options);
+            for (let step = 0; step < 60; step++) {
+                const edit = randomEdit(text, next);
+                const edited = applyEdit(text, edit);
+                links = relinkify(text, links, edit, mask, options);
+                expect(links, JSON.stringify({ text, edit })).toEqual(
+                    fullScan(edited, mask, options),
+                );
+                text = edited;
+            }
+        }
+    });
+
+    test("keeps and shifts the links away from the edit", () => {
+        const text = "see a.com and b.com\nthen c.com";
+        const links = fullScan(text);
+        const edit = { offset: 14, deleted: 1, inserted: "bb" };
+        const updated = relinkify(text, links, edit);
+        expect(updated.map((link) => [link.url, link.start, link.end])).toEqual([
+            ["http://a.com", 4, 9],
+            ["http://bb.com", 14, 20],
+            ["http://c.com", 26, 31],
+        ]);
+        expect(updated[0]).toBe(links[0]);
+    });
+
+    test("joins and splits links", () => {
+        const text = "call 650 555 and 1212";
+        const joined = { offset: 12, deleted: 9, inserted: " 1212" };
+        const links = relinkify(text, fullScan(text), joined);
+        expect(links.map((link) => link.url)).toEqual(["tel:6505551212"]);
+        const edited = applyEdit(text, joined);
+        const split = { offset: 8, deleted: 1, inserted: ", " };
+        expect(relinkify(edited, links, split)).toEqual(fullScan(applyEdit(edited, split)));
+    });
+
+    test("finds the links again once a rejected bidi control is removed", () => {
+        const text = "see a.com\u202E";
+        expect(fullScan(text)).toEqual([]);
+        const links = relinkify(text, [], { offset: 9, deleted: 1, inserted: "" });
+        expect(links.map((link) => link.url)).toEqual(["http://a.com"]);
+    });
+
+    test.each([
+        { offset: -1, deleted: 0, inserted: "" },
+        { offset: 2, deleted: 0, inserted: "" },
+        { offset: 0, deleted: 2, inserted: "" },
+    ])("rejects the edit %j", (edit) => {
+        expect(() => relinkify("a", [], edit)).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,235 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { linkifyAsync } from "../src/async";
+import { createDetectorRegistry } from "../src/detectors";
+import {
+    ALL,
+    explainLinks,
+    HASHTAGS,
+    linkify,
+    type LinkifyOptions,
+    linkifyWithLimits,
+    WEB_URLS,
+} from "../src/linkify";
+import { TAG_URLS } from "./tags";
+
+// Provided by Node.js, the project only types the ECMAScript library
+declare function setTimeout(callback: () => void, delay?: number): unknown;
+
+const TEXT = "see a.com, b.com and c.com or mail d@e.com #tag\ncall +1 650-555-1212 now";
+
+function texts(links: { text: string }[]) {
+    return links.map((link) => link.text);
+}
+
+describe("linkifyWithLimits", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test("finds all the links within the limits", () => {
+        expect(linkifyWithLimits(TEXT, { maxLinks: 10, maxInputLength: 1000 })).toEqual({
+            links: linkify(TEXT),
+        });
+    });
+
+    test("returns the first links of the text", () => {
+        const { links, stopped } = linkifyWithLimits(TEXT, { maxLinks: 2 });
+        expect(texts(links)).toEqual(["a.com", "b.com"]);
+        expect(stopped).toBe("max-links");
+        expect(texts(linkify(TEXT, { maxLinks: 2 }))).toEqual(["a.com", "b.com"]);
+        expect(linkifyWithLimits("a.com b.com", { maxLinks: 2 }).stopped).toBeUndefined();
+    });
+
+    test("skips the detectors left once there are more links than kept", () => {
+        const text = "call +1 650-555-1212 or see a.com and b.com";
+        expect(linkifyWithLimits(text, { maxLinks: 1 })).toEqual({
+            links: [expect.objectContaining({ text: "a.com" })],
+            stopped: "max-links",
+        });
+        expect(explainLinks(text, { maxLinks: 1 }).candidates.map((c) => c.kind)).toEqual([
+            "web",
+            "web",
+        ]);
+        expect(texts(linkify(text, { maxLinks: 2 }))).toEqual(["+1 650-555-1212", "a.com"]);
+    });
+
+    test("orders the links before keeping the first ones when overlaps are kept", () => {
+        const { links } = linkifyWithLimits("#a b.com", {
+            ...TAG_URLS,
+            mask: WEB_URLS | HASHTAGS,
+            overlaps: "keep",
+            maxLinks: 1,
+        });
+        expect(texts(links)).toEqual(["#a"]);
+    });
+
+    test("truncates long texts", () => {
+        expect(linkifyWithLimits("a.com b.com", { maxInputLength: 8 })).toEqual({
+            links: [expect.objectContaining({ text: "a.com" })],
+            stopped: "max-input-length",
+        });
+        // b.com could have gone on after the cut
+        expect(texts(linkify("a.com b.com", { maxInputLength: 11 }))).toEqual(["a.com", "b.com"]);
+        expect(texts(linkify("a.com b.com.", { maxInputLength: 11 }))).toEqual(["a.com"]);
+    });
+
+    test("doesn't split surrogate pairs when truncating", () => {
+        const { links } = linkifyWithLimits("a.com 😀b.com", { maxInputLength: 7 });
+        expect(texts(links)).toEqual(["a.com"]);
+        expect(linkify("😀", { maxInputLength: 1 })).toEqual([]);
+    });
+
+    test("refuses long texts when asked to", () => {
+        expect(
+            linkifyWithLimits("a.com b.com", { maxInputLength: 8, longInput: "refuse" }),
+        ).toEqual({ links: [], stopped: "max-input-length" });
+    });
+
+    test("stops when the time budget runs out", () => {
+        let now = 1000;
+        vi.spyOn(Date, "now").mockImplementation(() => now);
+        const registry = createDetectorRegistry(ALL);
+        registry.register({
+            name: "slow",
+            *scan(text) {
+                for (let i = 0; i < text.length; i++) {
+                    now += 10;
+                    yield { start: i, end: i + 1 };
+                }
+            },
+        });
+        const { links, stopped } = linkifyWithLimits("a.com xyz", {
+            registry,
+            overlaps: "keep",
+            timeBudget: 25,
+        });
+        expect(stopped).toBe("time-budget");
+        expect(texts(links)).toEqual(["a.com", "a", "."]);
+    });
+
+    test("stops when the signal is aborted", () => {
+        const signal = { aborted: false };
+        const registry = createDetectorRegistry(0);
+        registry.register({
+            name: "abort",
+            *scan() {
+                yield { start: 0, end: 1 };
+                signal.aborted = true;
+                yield { start: 2, end: 3 };
+            },
+        });
+        expect(linkifyWithLimits("abc", { registry, signal })).toEqual({
+            links: [expect.objectContaining({ text: "a" })],
+            stopped: "aborted",
+        });
+        expect(linkifyWithLimits("a.com", { signal })).toEqual({ links: [], stopped: "aborted" });
+    });
+
+    test("explainLinks tells why the search stopped", () => {
+        expect(explainLinks(TEXT, { maxLinks: 1 }).stopped).toBe("max-links");
+        expect(explainLinks(TEXT).stopped).toBeUndefined();
+    });
+
+    test("explainLinks tells which links the limits left out", () => {
+        const fates = (text: string, options: LinkifyOptions) =>
+            explainLinks(text, options).candidates.map(({ text, fate }) => [text, fate]);
+        expect(fates("a.com b.com c.com", { maxLinks: 1 })).toEqual([
+            ["a.com", "linked"],
+            ["b.com", "max-links"],
+            ["c.com", "max-links"],
+        ]);
+        expect(fates("a.com b.com", { maxInputLength: 10 })).toEqual([
+            ["a.com", "linked"],
+            ["b.co", "truncated"],
+        ]);
+        expect(fates("a.com b.com c.com", { maxInputLength: 16, maxLinks: 1 })).toEqual([
+            ["a.com", "linked"],
+            ["b.com", "max-links"],
+            ["c.co", "truncated"],
+        ]);
+    });
+
+    test.each<[LinkifyOptions, string]>([
+        [{ maxLinks: 0 }, "Invalid maximum number of links: 0"],
+        [{ maxLinks: 1.5 }, "Invalid maximum number of links: 1.5"],
+        [{ maxInputLength: -1 }, "Invalid maximum input length: -1"],
+        [{ timeBudget: 0 }, "Invalid time budget: 0"],
+        [{ timeBudget: NaN }, "Invalid time budget: NaN"],
+    ])("rejects invalid limits %o", (options, message) => {
+        expect(() => linkify(TEXT, options)).toThrow(new TypeError(message));
+    });
+});
+
+describe("linkifyAsync", () => {
+    const LARGE = Array.from(
+        { length: 200 },
+        (_, i) => `line ${i}: see www.site${i}.com/p?q=${i}, mail u${i}@mail.org or #t${i}\t`,
+    ).join("\n");
+
+    test("finds the same links as linkify", async () => {
+        const options: LinkifyOptions = {
+            ...TAG_URLS,
+            mask: ALL | HASHTAGS,
+            offsetUnit: "codePoint",
+        };
+        const text = LARGE + " 😀 a.com";
+        expect(await linkifyAsync(text, { ...options, chunkSize: 100 })).toEqual({
+            links: linkify(text, options),
+        });
+        expect(await linkifyAsync(text, options)).toEqual({ links: linkify(text, options) });
+    });
+
+    test("yields to the event loop between chunks", async () => {
+        const signal = { aborted: false };
+        setTimeout(() => {
+            signal.aborted = true;
+        }, 0);
+        const { links, stopped } = await linkifyAsync(LARGE, { chunkSize: 100, signal });
+        expect(stopped).toBe("aborted");
+        expect(links.length).toBeGreaterThan(0);
+        expect(links.length).toBeLessThan(linkify(LARGE).length);
+    });
+
+    test("applies the limits to the whole text", async () => {
+        const all = linkify(LARGE);
+        const { links, stopped } = await linkifyAsync(LARGE, { chunkSize: 100, maxLinks: 5 });
+        expect(links).toEqual(all.slice(0, 5));
+        expect(stopped).toBe("max-links");
+
+        const cut = LARGE.indexOf("www.site3.com") + 6;
+        expect(await linkifyAsync(LARGE, { chunkSize: 100, maxInputLength: cut })).toEqual({
+            links: linkify(LARGE, { maxInputLength: cut }),
+            stopped: "max-input-length",
+        });
+        expect(await linkifyAsync(LARGE, { maxInputLength: cut, longInput: "refuse" })).toEqual({
+            links: [],
+            stopped: "max-input-length",
+        });
+    });
+
+    test("rejects texts with bidi controls as a whole", async () => {
+        expect(await linkifyAsync(LARGE + "\u202E", { chunkSize: 100 })).toEqual({ links: [] });
+    });
+
+    test("rejects an invalid chunk size", async () => {
+        await expect(linkifyAsync("a.com", { chunkSize: 0 })).rejects.toThrow(
+            new TypeError("Invalid chunk size: 0"),
+        );
+    });
+});
@@ -0,0 +1,75 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import { addLinks, EMAIL_ADDRESSES, linkify, WEB_URLS } from "../src/linkify";
+
+test("nothing found is an empty array", () => {
+    expect(linkify("hello world")).toEqual([]);
+    expect(linkify("google.com", { mask: 0 })).toEqual([]);
+    expect(linkify("google.com \u202E")).toEqual([]);
+});
+
+test("mask selects detectors", () => {
+    const text = "google.com test@example.com";
+    expect(linkify(text, { mask: WEB_URLS }).map((l) => l.kind)).toEqual(["web"]);
+    expect(linkify(text, { mask: EMAIL_ADDRESSES }).map((l) => l.kind)).toEqual(["email"]);
+});
+
+test("custom pattern with schemes and filters", () => {
+    const result = linkify("PROJ-12 PROJ-3 proj-45", {
+        mask: 0,
+        pattern: /proj-(\d+)/i,
+        schemes: ["https://tracker.example/"],
+        matchFilter: (s, start, end) => end - start > 6,
+        transformFilter: (match) => match[1],
+    });
+    expect(result.map(({ url, start, end }) => ({ url, start, end }))).toEqual([
+        { url: "https://tracker.example/12", start: 0, end: 7 },
+        { url: "https://tracker.example/45", start: 15, end: 22 },
+    ]);
+});
+
+test("pattern without g flag and lastIndex", () => {
+    const pattern = /ab/y;
+    pattern.lastIndex = 2;
+    expect(linkify("ab ab", { mask: 0, pattern }).map((l) => l.start)).toEqual([0, 3]);
+    expect(pattern.lastIndex).toEqual(2);
+
+    const global = /ab/g;
+    global.lastIndex = 3;
+    expect(linkify("ab ab", { mask: 0, pattern: global }).map((l) => l.start)).toEqual([0, 3]);
+    expect(global.lastIndex).toEqual(3);
+});
+
+test("empty matches are skipped", () => {
+    expect(linkify("abc", { mask: 0, pattern: /x*/ })).toEqual([]);
+});
+
+test("overlaps can be kept", () => {
+    const text = "test@example.com";
+    expect(linkify(text, { mask: EMAIL_ADDRESSES, pattern: /example\.com/ })).toHaveLength(1);
+    expect(
+        linkify(text, { mask: EMAIL_ADDRESSES, pattern: /example\.com/, overlaps: "keep" }),
+    ).toHaveLength(2);
+});
+
+test("addLinks returns false when nothing is found", () => {
+    expect(addLinks("nothing", /\d+/, "tel:", undefined, undefined, undefined)).toEqual(false);
+    expect(addLinks("call 123", /\d+/, "tel:", undefined, undefined, undefined)).toEqual([
+        { kind: "custom", url: "tel:123", start: 5, end: 8, text: "123", schemeAdded: true },
+    ]);
+});
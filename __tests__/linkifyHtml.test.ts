@@ -0,0 +1,90 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import { findLinksInHtml, findLinksInHtmlWithLimits, linkifyHtml } from "../src/linkifyHtml";
+
+test("links text nodes only", () => {
+    const html = '<p class="x.com">see <b>google.com</b> <img alt="y.com"> ok</p>';
+    expect(linkifyHtml(html, { rel: "" })).toEqual(
+        '<p class="x.com">see <b><a href="http://google.com">google.com</a></b> <img alt="y.com"> ok</p>',
+    );
+});
+
+test("skips existing anchors, code and raw text", () => {
+    const html =
+        '<a href="http://a.com">b.com</a> <code>c.com</code> <pre><i>d.com</i></pre>' +
+        "<script>e.com < f.com</script><style>/* g.com */</style><!-- h.com --> i.com";
+    expect(findLinksInHtml(html).map((l) => l.text)).toEqual(["i.com"]);
+});
+
+test("configurable skipped tags", () => {
+    const html = "<kbd>a.com</kbd> <span>b.com</span>";
+    expect(findLinksInHtml(html, { skipTags: ["KBD"] }).map((l) => l.text)).toEqual(["b.com"]);
+});
+
+test("offsets map entities back to the source", () => {
+    const html = "<p>&lt;example.com/?a=1&amp;b=2&gt;</p>";
+    const [link] = findLinksInHtml(html);
+    expect(link.text).toEqual("example.com/?a=1&b=2");
+    expect(link.url).toEqual("http://example.com/?a=1&b=2");
+    expect(html.substring(link.start, link.end)).toEqual("example.com/?a=1&amp;b=2");
+});
+
+test("rewritten links are escaped", () => {
+    expect(linkifyHtml("example.com/?a=1&amp;b=2 &lt;x&gt;", { rel: "" })).toEqual(
+        '<a href="http://example.com/?a=1&amp;b=2">example.com/?a=1&amp;b=2</a> &lt;x&gt;',
+    );
+});
+
+test("markup that isn't a tag is text", () => {
+    expect(findLinksInHtml("1 < 2 google.com").map((l) => l.text)).toEqual(["google.com"]);
+});
+
+test("unclosed skipped element skips the rest", () => {
+    expect(findLinksInHtml("a.com <code>b.com").map((l) => l.text)).toEqual(["a.com"]);
+});
+
+test("limits apply to the whole source", () => {
+    const html = "<p>a.com b.com</p><p>c.com</p><p>d.com</p>";
+    const texts = (options: Parameters<typeof findLinksInHtml>[1]) =>
+        findLinksInHtml(html, options).map((l) => l.text);
+    expect(texts({ maxLinks: 1 })).toEqual(["a.com"]);
+    expect(texts({ maxLinks: 2 })).toEqual(["a.com", "b.com"]);
+    expect(texts({ maxLinks: 3 })).toEqual(["a.com", "b.com", "c.com"]);
+    expect(findLinksInHtmlWithLimits("<p>a.com</p><p>c.com</p>", { maxLinks: 1 })).toEqual({
+        links: [expect.objectContaining({ text: "a.com", start: 3, end: 8 })],
+        stopped: "max-links",
+    });
+    expect(findLinksInHtmlWithLimits(html, { maxLinks: 4 }).stopped).toBeUndefined();
+    expect(findLinksInHtmlWithLimits(html, { maxInputLength: 25 })).toEqual({
+        links: [
+            expect.objectContaining({ text: "a.com" }),
+            expect.objectContaining({ text: "b.com" }),
+        ],
+        stopped: "max-input-length",
+    });
+    expect(linkifyHtml(html, { maxLinks: 1, rel: "" })).toEqual(
+        '<p><a href="http://a.com">a.com</a> b.com</p><p>c.com</p><p>d.com</p>',
+    );
+    expect(findLinksInHtmlWithLimits(html, { signal: { aborted: true } })).toEqual({
+        links: [],
+        stopped: "aborted",
+    });
+    expect(() => findLinksInHtml(html, { maxLinks: 0 })).toThrow(
+        new TypeError("Invalid maximum number of links: 0"),
+    );
+});
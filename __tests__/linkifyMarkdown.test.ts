@@ -0,0 +1,105 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { linkify } from "../src/linkify";
+import { findLinksInMarkdown, linkifyMarkdown } from "../src/linkifyMarkdown";
+import { PATHOLOGICAL_INPUTS, PATHOLOGICAL_MARKDOWN } from "./pathological";
+
+function texts(md: string) {
+    return findLinksInMarkdown(md).map((l) => l.text);
+}
+
+test("code spans and fences are protected", () => {
+    const md = [
+        "a.com `b.com` ``c.com ` d.com`` e.com",
+        "```js",
+        "f.com",
+        "```",
+        "~~~~",
+        "g.com",
+        "```",
+        "~~~~",
+        "h.com",
+    ].join("\n");
+    expect(texts(md)).toEqual(["a.com", "e.com", "h.com"]);
+});
+
+test("indented code blocks are protected", () => {
+    expect(linkifyMarkdown("    https://indented.com code")).toBe("    https://indented.com code");
+    const md = [
+        "a.com",
+        "    b.com",
+        "",
+        "    c.com",
+        "\td.com",
+        "# e.com",
+        "    f.com",
+        "```",
+        "```",
+        "    g.com",
+        "   h.com",
+    ].join("\n");
+    expect(texts(md)).toEqual(["a.com", "b.com", "e.com", "h.com"]);
+});
+
+test("links, references and autolinks are protected", () => {
+    const md = [
+        "[a.com](http://b.com) ![c.com](d.com/x.png) [e.com][ref] [ref] [f.com]",
+        "<http://g.com> <mail@h.com> <span title='i.com'>j.com</span>",
+        "",
+        "[ref]: http://k.com",
+    ].join("\n");
+    expect(texts(md)).toEqual(["f.com", "j.com"]);
+});
+
+test("same results as plain text outside protected regions", () => {
+    const text = "mail test@example.com or see https://example.com/a?b=c, thanks";
+    expect(findLinksInMarkdown(text)).toEqual(linkify(text));
+});
+
+test("rewrites bare links as autolinks", () => {
+    expect(linkifyMarkdown("see http://a.com and b.com or x@y.com, `c.com`")).toEqual(
+        "see <http://a.com> and [b.com](http://b.com) or <x@y.com>, `c.com`",
+    );
+});
+
+test("rewrites bare links as inline links", () => {
+    expect(linkifyMarkdown("see http://a.com/(x)", { style: "inline" })).toEqual(
+        "see [http://a.com/(x)](<http://a.com/(x)>)",
+    );
+});
+
+test("escapes the inline syntax of link text", () => {
+    expect(linkifyMarkdown("see http://a.com/__x__*y*~z~&b|", { style: "inline" })).toEqual(
+        "see [http://a.com/\\_\\_x\\_\\_\\*y\\*\\~z\\~\\&b](http://a.com/__x__*y*~z~&b)|",
+    );
+    const options = { mask: 0, pattern: /x`y/, schemes: ["https://t.example/"] };
+    expect(linkifyMarkdown("run x`y", options)).toEqual("run [x\\`y](https://t.example/x`y)");
+});
+
+describe("pathological inputs", () => {
+    test.each([...PATHOLOGICAL_MARKDOWN, ...PATHOLOGICAL_INPUTS])(
+        "$name are linkified in linear time",
+        ({ text }) => {
+            const input = text(80000);
+            const start = Date.now();
+            linkifyMarkdown(input);
+            // Quadratic scans of the protected ranges would take minutes
+            expect(Date.now() - start).toBeLessThan(5000);
+        },
+    );
+});
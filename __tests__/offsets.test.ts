@@ -0,0 +1,122 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { linkify } from "../src/linkify";
+import { findLinksInHtml } from "../src/linkifyHtml";
+import { findLinksInMarkdown, linkifyMarkdown } from "../src/linkifyMarkdown";
+import { convertOffsets } from "../src/offsets";
+import { tokenize } from "../src/tokenize";
+
+describe("convertOffsets", () => {
+    test.each([
+        [
+            "😀 example.com",
+            { utf16: [3, 14], codePoint: [2, 13], grapheme: [2, 13], utf8: [5, 16] },
+        ],
+        [
+            "👨\u200D👩\u200D👧 example.com",
+            { utf16: [9, 20], codePoint: [6, 17], grapheme: [2, 13], utf8: [19, 30] },
+        ],
+        [
+            "cafe\u0301 example.com",
+            { utf16: [6, 17], codePoint: [6, 17], grapheme: [5, 16], utf8: [7, 18] },
+        ],
+        ["example.com", { utf16: [0, 11], codePoint: [0, 11], grapheme: [0, 11], utf8: [0, 11] }],
+    ] as const)("converts the offsets of %j", (text, expected) => {
+        const links = linkify(text);
+        for (const [unit, [start, end]] of Object.entries(expected)) {
+            expect(convertOffsets(text, links, unit as keyof typeof expected)).toMatchObject([
+                { start, end, text: "example.com" },
+            ]);
+        }
+    });
+
+    test("doesn't modify the links", () => {
+        const links = [{ start: 2, end: 3 }];
+        expect(convertOffsets("😀ab", links, "codePoint")).toEqual([{ start: 1, end: 2 }]);
+        expect(links).toEqual([{ start: 2, end: 3 }]);
+    });
+
+    test("widens the ranges that split a unit", () => {
+        expect(convertOffsets("e\u0301x", [{ start: 1, end: 2 }], "grapheme")).toEqual([
+            { start: 0, end: 1 },
+        ]);
+        expect(convertOffsets("e\u0301x", [{ start: 0, end: 1 }], "grapheme")).toEqual([
+            { start: 0, end: 1 },
+        ]);
+        expect(convertOffsets("😀x", [{ start: 1, end: 2 }], "codePoint")).toEqual([
+            { start: 0, end: 1 },
+        ]);
+        expect(convertOffsets("😀x", [{ start: 0, end: 1 }], "utf8")).toEqual([
+            { start: 0, end: 4 },
+        ]);
+    });
+
+    test("converts unordered and nested ranges", () => {
+        const ranges = [
+            { start: 4, end: 6 },
+            { start: 0, end: 6 },
+            { start: 2, end: 2 },
+        ];
+        expect(convertOffsets("😀😀😀", ranges, "codePoint")).toEqual([
+            { start: 2, end: 3 },
+            { start: 0, end: 3 },
+            { start: 1, end: 1 },
+        ]);
+    });
+
+    test("agrees with counting code points of every link of a long text", () => {
+        const text = "😀 a.com é b.org 👍🏽 c.net ".repeat(500);
+        const links = linkify(text);
+        expect(links).toHaveLength(1500);
+        expect(convertOffsets(text, links, "codePoint")).toEqual(
+            links.map((link) => ({
+                ...link,
+                start: Array.from(text.substring(0, link.start)).length,
+                end: Array.from(text.substring(0, link.end)).length,
+            })),
+        );
+    });
+});
+
+describe("offsetUnit", () => {
+    test("converts the offsets of linkify", () => {
+        expect(linkify("😀 example.com", { offsetUnit: "utf8" })).toMatchObject([
+            { start: 5, end: 16 },
+        ]);
+    });
+
+    test("converts the offsets in the HTML source", () => {
+        expect(findLinksInHtml("<p>😀 example.com</p>", { offsetUnit: "utf8" })).toMatchObject([
+            { start: 8, end: 19 },
+        ]);
+    });
+
+    test("converts the offsets in the Markdown document", () => {
+        expect(findLinksInMarkdown("`😀` example.com", { offsetUnit: "codePoint" })).toMatchObject([
+            { start: 4, end: 15 },
+        ]);
+    });
+
+    test("is ignored when splitting or rewriting text", () => {
+        const text = "😀 example.com";
+        expect(tokenize(text, { offsetUnit: "grapheme" })).toEqual(tokenize(text));
+        expect(linkifyMarkdown(text, { offsetUnit: "utf8" })).toEqual(
+            "😀 [example.com](http://example.com)",
+        );
+    });
+});
@@ -0,0 +1,49 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Texts of about `n` characters that made matching take a time quadratic or worse in their
+ * length, shared by the tests and the benchmarks.
+ */
+export const PATHOLOGICAL_INPUTS: { name: string; text: (n: number) => string }[] = [
+    { name: "labels without a top-level domain", text: (n) => "a.".repeat(n / 2) },
+    { name: "labels ending with punctuation", text: (n) => "ab.".repeat(n / 3) + "!" },
+    { name: "labels after an at sign", text: (n) => "x@" + "a.".repeat(n / 2) },
+    { name: "a long label after a scheme", text: (n) => "http://" + "a".repeat(n) + "_" },
+    { name: "hyphenated labels", text: (n) => "a-".repeat(n / 2) + "." },
+    { name: "closing parentheses", text: (n) => "example.com/" + ")".repeat(n) },
+    { name: "quotes", text: (n) => "example.com/" + "'".repeat(n) },
+    { name: "digits and dots", text: (n) => "1.".repeat(n / 2) },
+    { name: "local parts", text: (n) => "a.a@".repeat(n / 4) },
+    { name: "a long path", text: (n) => "example.com/" + "a/".repeat(n / 2) + " " },
+    { name: "hashtags", text: (n) => "#a".repeat(n / 2) },
+    { name: "phone digits", text: (n) => "+1 " + "1 ".repeat(n / 2) + "-" },
+];
+
+/**
+ * Markdown documents of about `n` characters whose unclosed constructs made the search for the
+ * parts to leave alone take a time quadratic in their length.
+ */
+export const PATHOLOGICAL_MARKDOWN: { name: string; text: (n: number) => string }[] = [
+    { name: "opening brackets", text: (n) => "[".repeat(n) },
+    { name: "nested brackets", text: (n) => "[".repeat(n / 2) + "]".repeat(n / 2) },
+    { name: "unclosed inline links", text: (n) => "[a](".repeat(n / 4) },
+    { name: "unclosed destinations", text: (n) => "[a](<".repeat(n / 5) },
+    { name: "unclosed titles", text: (n) => '[a](b "'.repeat(n / 7) },
+    { name: "unclosed references", text: (n) => "[a][".repeat(n / 4) },
+    { name: "unclosed code spans", text: (n) => "`` `".repeat(n / 4) },
+    { name: "unclosed comments", text: (n) => "<!--".repeat(n / 4) },
+];
@@ -0,0 +1,212 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Conformance cases adapted from AOSP's android.util.PatternsTest and android.text.util.LinkifyTest.
+
+import { describe, expect, test } from "vitest";
+import { addAutoLinks, EMAIL_ADDRESSES, WEB_URLS } from "../src/linkify";
+import { AUTOLINK_EMAIL_ADDRESS, AUTOLINK_WEB_URL, WEB_URL } from "../src/patterns";
+
+/**
+ * Whether the pattern matches all of the text, like `Matcher.matches()` in Java.
+ */
+function matches(pattern: RegExp, text: string) {
+    return new RegExp("^(?:" + pattern.source + ")$", pattern.flags).test(text);
+}
+
+/**
+ * The texts of the links found, like repeated calls to `Matcher.find()` in Java.
+ */
+function find(text: string, mask: number) {
+    const links = addAutoLinks(text, mask);
+    return links === false ? [] : links.map((link) => link.text);
+}
+
+describe("WEB_URL", () => {
+    test.each([
+        "http://www.android.com",
+        "http://www.android.me",
+        "android.me",
+        "http://xn--fsqu00a.xn--unup4y",
+        "xn--fsqu00a.xn--unup4y",
+        "http://xn--4gbrim.xn----rmckbbajlc6dj7bxne2c.xn--wgbh1c/ar/default.aspx",
+        "xn--4gbrim.xn----rmckbbajlc6dj7bxne2c.xn--wgbh1c/ar/default.aspx",
+        "http://현금영수증.kr",
+        "현금영수증.kr",
+        "도메인.한국",
+        "http://brainstormtech.blogs.fortune.cnn.com/2010/03/11/top-five-moments-from-eric-schmidt’s-talk-in-abu-dhabi/",
+        "http://www.example.com:8080",
+        "http://www.example.com:8080/?foo=bar",
+        "http://www.example.com:8080/~user/?foo=bar",
+        "hTtP://android.com",
+        "http://a-nd.r-oid.com",
+        "a-nd.r-oid.com",
+        "http://a_nd.r_oid.com",
+        "a_nd.r_oid.com",
+        "http://android.com/path$?v=$val",
+        "android.com/path$?v=$val",
+        "http://android.com?q=v",
+        "android.com?q=v",
+        "http://android.com/?q=v",
+        "android.com/?q=v",
+    ])("matches %s", (url) => {
+        expect(matches(WEB_URL, url)).toBe(true);
+    });
+
+    test.each(["ftp://www.example.com", "http://www.example.com:port"])(
+        "doesn't match %s",
+        (url) => {
+            expect(matches(WEB_URL, url)).toBe(false);
+        },
+    );
+});
+
+describe("AUTOLINK_WEB_URL", () => {
+    test.each([
+        "http://www.android.com",
+        "http://www.android.me",
+        "android.me",
+        "http://xn--fsqu00a.xn--unup4y",
+        "xn--fsqu00a.xn--unup4y",
+        "http://xn--4gbrim.xn----rmckbbajlc6dj7bxne2c.xn--wgbh1c/ar/default.aspx",
+        "현금영수증.kr",
+        "http://현금영수증.kr",
+        "도메인.한국",
+        "http://www.example.com:8080/~user/?foo=bar",
+        "hTtP://android.com",
+        "HTTPS://android.com",
+        "RTSP://android.com",
+        "http://a_nd.r_oid.com",
+        "a-nd.r-oid.com",
+        "http://android.com/path$?v=$val",
+        "android.com?q=v",
+        "http://thank.you",
+        "http://192.168.0.1",
+        "192.168.0.1",
+        "http://android😀.com",
+        "android😀.com",
+        "http://android.😀",
+        "http://android.com/path-with-😀?v=😀",
+        "http://𠀋𠀋.com",
+        "http://" + "a".repeat(63) + ".com",
+        "http://android." + "a".repeat(63),
+    ])("matches %s", (url) => {
+        expect(matches(AUTOLINK_WEB_URL, url)).toBe(true);
+    });
+
+    test.each([
+        "ftp://www.example.com",
+        "thank.unknowntld",
+        "http://android\u{1FFFE}.com",
+        "a".repeat(64) + ".com",
+        "android." + "a".repeat(64),
+    ])("doesn't match %s", (url) => {
+        expect(matches(AUTOLINK_WEB_URL, url)).toBe(false);
+    });
+
+    test.each([
+        "\u00A0",
+        "\u2000",
+        "\u2001",
+        "\u2002",
+        "\u2003",
+        "\u2004",
+        "\u2005",
+        "\u2006",
+        "\u2007",
+        "\u2008",
+        "\u2009",
+        "\u200A",
+        "\u2028",
+        "\u2029",
+        "\u202F",
+        "\u3000",
+    ])("doesn't match the space %j in a host", (space) => {
+        expect(matches(AUTOLINK_WEB_URL, "http://and" + space + "roid.com")).toBe(false);
+        expect(matches(AUTOLINK_WEB_URL, "and" + space + "roid.com")).toBe(false);
+    });
+});
+
+describe("AUTOLINK_EMAIL_ADDRESS", () => {
+    test.each([
+        "a@b.cd",
+        "email@android.com",
+        "email@e.somelongdomainnameforandroid.abc.uk",
+        "e.mail@android.com",
+        "e+mail@android.com",
+        "e_mail@android.com",
+        "e-mail@android.com",
+        "e'mail@android.com",
+        "123@android.com",
+        "현금영수증@android.com",
+        "smiley☺@android.com",
+        "a🌸a@android.com",
+        "email@an-droid.com",
+        "email@현금영수증.kr",
+        "현금영수증@현금영수증.kr",
+        "smiley@☺android.com",
+        "email@🌸android.com",
+        "a🌸a@🌸android.com",
+        "a".repeat(64) + "@android.com",
+        "email@" + "a".repeat(63) + ".com",
+        "email@" + ("a".repeat(63) + ".").repeat(3) + "a".repeat(59) + ".com",
+    ])("matches %s", (email) => {
+        expect(matches(AUTOLINK_EMAIL_ADDRESS, email)).toBe(true);
+    });
+
+    test.each([
+        "android.com",
+        "email",
+        "email@android",
+        "email.@android.com",
+        ".email@android.com",
+        "email@-android.com",
+        "email@android..com",
+        "email@127.0.0.1",
+        "email@android.c",
+        "a".repeat(65) + "@android.com",
+        "email@" + "a".repeat(64) + ".com",
+        "email@" + ("a".repeat(63) + ".").repeat(3) + "a".repeat(60) + ".com",
+    ])("doesn't match %s", (email) => {
+        expect(matches(AUTOLINK_EMAIL_ADDRESS, email)).toBe(false);
+    });
+});
+
+describe("linkify", () => {
+    test.each([
+        ["hey man.its me", []],
+        ["thank.unknowntld", []],
+        ["http://android.com.unknowntld", ["http://android.com.unknowntld"]],
+        ["ftp://example.com", []],
+        ["ftp://example.com and example.com", ["example.com"]],
+        ["email@android.com", []],
+        ["Visit http://www.android.com, now", ["http://www.android.com"]],
+        ["😀android.com", ["😀android.com"]],
+        ["<p>http://example.com/café</p>", ["http://example.com/café"]],
+        ["café www.example.com", ["www.example.com"]],
+    ])("finds the web URLs of %j", (text, expected) => {
+        expect(find(text, WEB_URLS)).toEqual(expected);
+    });
+
+    test.each([
+        ["email@android.com", ["email@android.com"]],
+        ["email@android.com.", ["email@android.com"]],
+        ["mail me at email@android.com please", ["email@android.com"]],
+        ["email@android", []],
+    ])("finds the email addresses of %j", (text, expected) => {
+        expect(find(text, EMAIL_ADDRESSES)).toEqual(expected);
+    });
+});
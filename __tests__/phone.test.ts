@@ -0,0 +1,145 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import {
+    addAutoLinks,
+    addLinks,
+    PHONE_NUMBERS,
+    sPhoneNumberMatchFilter,
+    sPhoneNumberTransformFilter,
+} from "../src/linkify";
+import type { LinkSpec } from "../src/LinkSpec";
+import { PHONE } from "../src/patterns";
+
+function ranges(links: LinkSpec[] | false) {
+    return links && links.map(({ url, start, end }) => ({ url, start, end }));
+}
+
+test("north american number", () => {
+    const result = addAutoLinks("call (919) 555-1212 now", PHONE_NUMBERS, { defaultRegion: "US" });
+    expect(ranges(result)).toEqual([{ url: "tel:9195551212", start: 5, end: 19 }]);
+});
+
+test("international number", () => {
+    const result = addAutoLinks("+33 1 23 45 67 89", PHONE_NUMBERS);
+    expect(ranges(result)).toEqual([{ url: "tel:+33123456789", start: 0, end: 17 }]);
+});
+
+test("too few digits", () => {
+    const result = addAutoLinks("room 1234", PHONE_NUMBERS);
+    expect(ranges(result)).toEqual(false);
+});
+
+test("region rejects invalid national number", () => {
+    expect(ranges(addAutoLinks("id 12 34 56", PHONE_NUMBERS, { defaultRegion: "US" }))).toEqual(
+        false,
+    );
+    expect(ranges(addAutoLinks("id 12 34 56", PHONE_NUMBERS, { defaultRegion: "FR" }))).toEqual([
+        { url: "tel:123456", start: 3, end: 11 },
+    ]);
+});
+
+test.each([
+    "2020-01-01",
+    "on 31.12.1999",
+    "pi is 3.14159",
+    "Order 12345",
+    "ref 123456789",
+    "version 10.0.19041",
+    "kernel 4.15.123",
+    "ISBN 978-3-16-148410-0",
+    "ISBN 0-306-40615-2",
+    "ISBN 0-8044-2957-X",
+])("%s is not a phone number", (text) => {
+    expect(ranges(addAutoLinks(text))).toEqual(false);
+    expect(ranges(addAutoLinks(text, PHONE_NUMBERS, { defaultRegion: "FR" }))).toEqual(false);
+});
+
+test("grouped and international numbers are still phone numbers", () => {
+    expect(ranges(addAutoLinks("call 555.1212 or 1-919-555-1212"))).toEqual([
+        { url: "tel:5551212", start: 5, end: 13 },
+        { url: "tel:19195551212", start: 17, end: 31 },
+    ]);
+    expect(ranges(addAutoLinks("call +33123456789"))).toEqual([
+        { url: "tel:+33123456789", start: 5, end: 17 },
+    ]);
+});
+
+test("custom transform filter", () => {
+    const inputs: [string, number, string][] = [];
+    const result = addAutoLinks("call 919-555-1212", PHONE_NUMBERS, {
+        defaultRegion: "US",
+        phoneNumberTransformFilter: (match, url) => {
+            inputs.push([match[0], match.index, url]);
+            return "+1" + match[0].replace(/\D/g, "");
+        },
+    });
+    expect(ranges(result)).toEqual([{ url: "tel:+19195551212", start: 5, end: 17 }]);
+    expect(inputs).toEqual([["919-555-1212", 5, "919-555-1212"]]);
+    expect(result && result[0]).toMatchObject({ parts: { number: "+19195551212" } });
+});
+
+test("ip address is not a phone number", () => {
+    const result = addAutoLinks("192.168.100.1", PHONE_NUMBERS);
+    expect(ranges(result)).toEqual(false);
+});
+
+test("custom matcher", () => {
+    const result = addAutoLinks("dial 0800 FLOWERS", PHONE_NUMBERS, {
+        phoneNumberMatcher: (text, defaultRegion) => {
+            expect(defaultRegion).toEqual("GB");
+            return [{ start: 5, end: 9 }];
+        },
+        defaultRegion: "GB",
+    });
+    expect(ranges(result)).toEqual([{ url: "tel:0800", start: 5, end: 9 }]);
+});
+
+test("all includes phone numbers", () => {
+    const result = addAutoLinks("mail test@example.com or call +1 919 555 1212");
+    expect(ranges(result)).toEqual([
+        { url: "mailto:test@example.com", start: 5, end: 21 },
+        { url: "tel:+19195551212", start: 30, end: 45 },
+    ]);
+});
+
+test("android style phone pattern", () => {
+    const result = addLinks(
+        "call 555-1212",
+        PHONE,
+        "tel:",
+        undefined,
+        sPhoneNumberMatchFilter,
+        sPhoneNumberTransformFilter,
+    );
+    expect(ranges(result)).toEqual([{ url: "tel:5551212", start: 5, end: 13 }]);
+});
+
+test("phone link spec", () => {
+    const result = addAutoLinks("+44 20 7946 0958", PHONE_NUMBERS);
+    expect(result).toEqual([
+        {
+            kind: "phone",
+            url: "tel:+442079460958",
+            start: 0,
+            end: 16,
+            text: "+44 20 7946 0958",
+            schemeAdded: true,
+            parts: { number: "+442079460958" },
+        },
+    ]);
+});
@@ -0,0 +1,61 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import { addAutoLinks, linkify, WEB_URLS } from "../src/linkify";
+
+function texts(text: string) {
+    return linkify(text, { mask: WEB_URLS }).map((l) => l.text);
+}
+
+test.each([
+    ["see (example.com/foo).", "example.com/foo"],
+    [
+        "go to https://en.wikipedia.org/wiki/Foo_(bar), then",
+        "https://en.wikipedia.org/wiki/Foo_(bar)",
+    ],
+    ["(https://en.wikipedia.org/wiki/Foo_(bar))", "https://en.wikipedia.org/wiki/Foo_(bar)"],
+    ["have you seen google.com?", "google.com"],
+    ["x http://google.com/ x", "http://google.com/"],
+    ["[example.com/a]", "example.com/a"],
+    ["example.com/a?b=c!", "example.com/a?b=c"],
+    ["'example.com/it's'", "example.com/it's"],
+    ['"example.com/x"', "example.com/x"],
+    ["“example.com/x”", "example.com/x"],
+    ["请看 example.com/路径。", "example.com/路径"],
+    ["（example.com/x）", "example.com/x"],
+    ["example.com/a...", "example.com/a"],
+])("%s", (text, expected) => {
+    expect(texts(text)).toEqual([expected]);
+});
+
+test("url is built from the trimmed text", () => {
+    const [link] = linkify("(example.com/foo).");
+    expect(link).toMatchObject({ url: "http://example.com/foo", start: 1, end: 16 });
+});
+
+test("addAutoLinks keeps the android behavior", () => {
+    const result = addAutoLinks("have you seen google.com?", WEB_URLS);
+    expect(result && result.map((l) => l.text)).toEqual(["google.com?"]);
+});
+
+test("trimming can be turned off", () => {
+    expect(
+        linkify("see https://example.com/foo_(bar), then", { trimPunctuation: false }).map(
+            (l) => l.text,
+        ),
+    ).toEqual(["https://example.com/foo_(bar"]);
+});
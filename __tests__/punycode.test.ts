@@ -0,0 +1,144 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { addAutoLinks, linkify } from "../src/linkify";
+import { decode, encode, toASCII, toUnicode } from "../src/punycode";
+
+// Samples of RFC 3492 section 7.1, and a few more
+const SAMPLES = [
+    ["他们为什么不说中文", "ihqwcrb4cv8a8dqg056pqjye"],
+    ["他們爲什麽不說中文", "ihqwctvzc91f659drss3x8bo0yb"],
+    ["3年B組金八先生", "3B-ww4c5e180e575a65lsy2b"],
+    ["安室奈美恵-with-SUPER-MONKEYS", "-with-SUPER-MONKEYS-pc58ag80a8qai00g7n9n"],
+    ["Hello-Another-Way-それぞれの場所", "Hello-Another-Way--fc4qua05auwb3674vfr0b"],
+    ["ひとつ屋根の下2", "2-u9tlzr9756bt3uc0v"],
+    ["MajiでKoiする5秒前", "MajiKoi5-783gue6qz075azm5e"],
+    ["パフィーdeルンバ", "de-jg4avhby1noc0d"],
+    ["そのスピードで", "d9juau41awczczp"],
+    ["-> $1.00 <-", "-> $1.00 <--"],
+    ["bücher", "bcher-kva"],
+    ["mañana", "maana-pta"],
+    ["☃-⌘", "--dqo34k"],
+    ["😀", "e28h"],
+];
+
+describe("punycode", () => {
+    test.each(SAMPLES)("encodes %s", (decoded, encoded) => {
+        expect(encode(decoded)).toEqual(encoded);
+    });
+
+    test.each(SAMPLES)("decodes %s", (decoded, encoded) => {
+        expect(decode(encoded)).toEqual(decoded);
+    });
+
+    test.each(["99999999999", "a-é", "bcher-kv!", "bcher-k"])("rejects %s", (encoded) => {
+        expect(() => decode(encoded)).toThrow(RangeError);
+    });
+});
+
+describe("toASCII", () => {
+    test.each([
+        ["bücher.example", "xn--bcher-kva.example"],
+        ["Bücher.Example", "xn--bcher-kva.example"],
+        ["example.com", "example.com"],
+        ["ＢＵＣＨ.例え。テスト", "buch.xn--r8jz45g.xn--zckzah"],
+        ["도메인.한국", "xn--hq1bm8jm9l.xn--3e0b707e"],
+        ["😀.example", "xn--e28h.example"],
+        ["example.com.", "example.com."],
+    ])("converts %s", (domain, ascii) => {
+        expect(toASCII(domain)).toEqual(ascii);
+    });
+
+    test("rejects labels that are too long", () => {
+        expect(() => toASCII("é".repeat(60) + ".com")).toThrow(RangeError);
+    });
+});
+
+describe("toUnicode", () => {
+    test.each([
+        ["xn--bcher-kva.example", "bücher.example"],
+        ["XN--BCHER-KVA.Example", "bücher.Example"],
+        ["xn--hq1bm8jm9l.xn--3e0b707e", "도메인.한국"],
+        ["bücher.example", "bücher.example"],
+        ["xn--invalid-.example", "xn--invalid-.example"],
+        ["xn--abc-.example", "xn--abc-.example"],
+    ])("converts %s", (domain, unicode) => {
+        expect(toUnicode(domain)).toEqual(unicode);
+    });
+});
+
+describe("idn option", () => {
+    test("web URLs get an ASCII URL and a Unicode display form", () => {
+        expect(
+            linkify("visit bücher.de/straße or http://xn--bcher-kva.de:8080/x", { idn: true }),
+        ).toMatchObject([
+            {
+                text: "bücher.de/straße",
+                url: "http://xn--bcher-kva.de/straße",
+                display: "bücher.de/straße",
+                parts: { host: "xn--bcher-kva.de", path: "/straße" },
+            },
+            {
+                text: "http://xn--bcher-kva.de:8080/x",
+                url: "http://xn--bcher-kva.de:8080/x",
+                display: "http://bücher.de:8080/x",
+                parts: { host: "xn--bcher-kva.de", port: 8080 },
+            },
+        ]);
+    });
+
+    test("the user info of a URL isn't converted", () => {
+        expect(linkify("http://user:pw@bücher.de", { idn: true })).toMatchObject([
+            { url: "http://user:pw@xn--bcher-kva.de", display: "http://user:pw@bücher.de" },
+        ]);
+    });
+
+    test("email domains are converted", () => {
+        expect(
+            linkify("mail jürgen@bücher.de or info@xn--bcher-kva.de", { idn: true }),
+        ).toMatchObject([
+            {
+                kind: "email",
+                url: "mailto:jürgen@xn--bcher-kva.de",
+                display: "jürgen@bücher.de",
+            },
+            {
+                kind: "email",
+                url: "mailto:info@xn--bcher-kva.de",
+                display: "info@bücher.de",
+            },
+        ]);
+    });
+
+    test("ASCII hosts are left alone", () => {
+        expect(linkify("see Example.com/X", { idn: true })).toMatchObject([
+            { url: "http://Example.com/X", display: "Example.com/X" },
+        ]);
+    });
+
+    test("IPv6 literals are left alone", () => {
+        expect(linkify("see http://[::1]/", { idn: true })).toMatchObject([
+            { url: "http://[::1]/", display: "http://[::1]/" },
+        ]);
+    });
+
+    test("links are unchanged by default", () => {
+        const links = addAutoLinks("bücher.de");
+        expect(links !== false && links[0]).not.toHaveProperty("display");
+        expect(links !== false && links[0].url).toEqual("http://bücher.de");
+    });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { linkify } from "../src/linkify";
+import { assessLinkRisk } from "../src/risk";
+
+describe("assessLinkRisk", () => {
+    test.each([
+        "http://example.com",
+        "http://bücher.de",
+        "http://xn--bcher-kva.de",
+        "http://日本語ドメイン.jp",
+        "http://한국어.한국",
+        "http://пример.рф",
+        "http://android😀.com",
+        "http://[::1]:8080/",
+        "mailto:info@example.com",
+        "magnet:?xt=urn:btih:c12fe1c06bba254a9dc9f519b335aa7c1367a88a",
+    ])("finds no risk in %s", (url) => {
+        expect(assessLinkRisk(url).reasons).toEqual([]);
+    });
+
+    test.each([
+        ["http://pаypal.com", "pаypal"],
+        ["http://xn--pypal-4ve.com", "pаypal"],
+        ["mailto:info@gоogle.com", "gоogle"],
+        ["http://exαmple.com", "exαmple"],
+    ])("finds mixed scripts in %s", (url, label) => {
+        expect(assessLinkRisk(url).reasons).toEqual([{ code: "mixed-script", detail: label }]);
+    });
+
+    test.each([
+        ["http://аррӏе.com", "аррӏе"],
+        ["http://xn--80ak6aa92e.com", "аррӏе"],
+        ["http://соор.com", "соор"],
+        ["http://οκ.com", "οκ"],
+    ])("finds whole-script confusables in %s", (url, label) => {
+        expect(assessLinkRisk(url).reasons).toEqual([{ code: "confusable", detail: label }]);
+    });
+
+    test.each([
+        ["http://goo\u200Bgle.com", "U+200B"],
+        ["http://example.com/\u200D", "U+200D"],
+        ["http://example.com/\u00AD", "U+00AD"],
+    ])("finds invisible characters in %j", (url, character) => {
+        expect(assessLinkRisk(url).reasons).toEqual([{ code: "invisible", detail: character }]);
+    });
+
+    test("reports invisible characters of the display text", () => {
+        expect(assessLinkRisk("http://example.com", "exam\u2060ple.com").reasons).toEqual([
+            { code: "invisible", detail: "U+2060" },
+            { code: "display-mismatch", detail: "exam\u2060ple.com" },
+        ]);
+    });
+
+    test.each([
+        ["https://google.com@evil.example", "google.com"],
+        ["http://user:pw@example.com", "user:pw"],
+    ])("finds the user info of %s", (url, userInfo) => {
+        expect(assessLinkRisk(url).reasons).toEqual([{ code: "userinfo", detail: userInfo }]);
+    });
+
+    test.each([
+        ["https://evil.example", "google.com"],
+        ["https://evil.example/google.com", "https://google.com/login"],
+        ["mailto:info@evil.example", "info@google.com"],
+    ])("finds that %s isn't shown as %s", (url, display) => {
+        expect(assessLinkRisk(url, display).reasons.map((reason) => reason.code)).toEqual([
+            "display-mismatch",
+        ]);
+    });
+
+    test.each([
+        ["http://example.com", "example.com"],
+        ["http://Example.com/path", "Example.com/path"],
+        ["http://xn--bcher-kva.de", "bücher.de"],
+        ["http://example.com", "click here"],
+        ["http://localhost:3000", "localhost:3000"],
+        ["mailto:info@xn--bcher-kva.de", "info@bücher.de"],
+    ])("finds that %s can be shown as %s", (url, display) => {
+        expect(assessLinkRisk(url, display).reasons).toEqual([]);
+    });
+
+    test("reports several reasons", () => {
+        expect(assessLinkRisk("http://google.com@pаypal.com", "paypal.com").reasons).toEqual([
+            { code: "mixed-script", detail: "pаypal" },
+            { code: "userinfo", detail: "google.com" },
+            { code: "display-mismatch", detail: "paypal.com" },
+        ]);
+    });
+});
+
+describe("linkify", () => {
+    test("doesn't assess links by default", () => {
+        expect(linkify("see pаypal.com")[0].risk).toBeUndefined();
+    });
+
+    test("assesses web and email links", () => {
+        const links = linkify(
+            "see pаypal.com, https://google.com@evil.example or info@gоogle.com",
+            { risk: true },
+        );
+        expect(links.map((link) => link.risk)).toEqual([
+            { reasons: [{ code: "mixed-script", detail: "pаypal" }] },
+            { reasons: [{ code: "userinfo", detail: "google.com" }] },
+            { reasons: [{ code: "mixed-script", detail: "gоogle" }] },
+        ]);
+    });
+
+    test("assesses the display form of the idn option", () => {
+        const [link] = linkify("see xn--bcher-kva.de", { idn: true, risk: true });
+        expect(link.risk).toEqual({ reasons: [] });
+    });
+
+    test("doesn't assess phone numbers", () => {
+        expect(linkify("call +1 650-555-1212", { risk: true })[0].risk).toBeUndefined();
+    });
+});
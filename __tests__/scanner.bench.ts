@@ -0,0 +1,40 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bench, describe } from "vitest";
+import { ALL, HASHTAGS, linkify, MENTIONS } from "../src/linkify";
+import { PATHOLOGICAL_INPUTS } from "./pathological";
+import { TAG_URLS } from "./tags";
+
+const PROSE =
+    "Meet me at https://example.com/agenda?day=2 or www.example.org/(notes), " +
+    "mail john.doe@example.com or call +1 650-253-0000 before 5pm. #planning @team ";
+
+describe("prose", () => {
+    const text = PROSE.repeat(1000);
+    bench("linkify", () => {
+        linkify(text, { ...TAG_URLS, mask: ALL | MENTIONS | HASHTAGS });
+    });
+});
+
+describe.each(PATHOLOGICAL_INPUTS)("$name", ({ text }) => {
+    for (const n of [10000, 100000]) {
+        const input = text(n);
+        bench(n + " characters", () => {
+            linkify(input, { ...TAG_URLS, mask: ALL | MENTIONS | HASHTAGS });
+        });
+    }
+});
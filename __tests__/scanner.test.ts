@@ -0,0 +1,155 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { ALL, HASHTAGS, linkify, MENTIONS } from "../src/linkify";
+import {
+    AUTOLINK_WEB_URL,
+    AUTOLINK_WEB_URL_OPTIONS,
+    autolinkWebUrl,
+    compileTlds,
+    type WebUrlPatternOptions,
+} from "../src/patterns";
+import { type Scanner, compileWebUrlScanner, regExpScanner } from "../src/scanner";
+import { PATHOLOGICAL_INPUTS } from "./pathological";
+import { random } from "./random";
+import { TAG_URLS } from "./tags";
+
+function scan(scanner: Scanner, text: string) {
+    const next = scanner(text);
+    const matches: [number, string][] = [];
+    let m: RegExpExecArray | null;
+    let from = 0;
+    while ((m = next(from)) != null) {
+        matches.push([m.index, m[0]]);
+        from = m.index + m[0].length;
+    }
+    return matches;
+}
+
+/**
+ * Pseudo-random texts made of the pieces of URLs and of the characters around them, the same ones
+ * for every run.
+ */
+function* randomTexts(seed: number, count: number) {
+    const pieces = [
+        ..."ab1-_.:/?@#()[] éx",
+        "http://",
+        "HTTPS://",
+        "rtsp://",
+        "magnet:?",
+        "www.",
+        ".com",
+        ".org",
+        ".io",
+        ".xn--p1ai",
+        "192.168.0.1",
+        "[::1]",
+        "[v1.x]",
+        "localhost",
+        "intranet",
+        ":8080",
+        "user:pw@",
+        "%41",
+        "例え",
+        " ",
+        "\n",
+    ];
+    const next = random(seed);
+    const pick = (n: number) => Math.floor(next() * n);
+    for (let i = 0; i < count; i++) {
+        let text = "";
+        const length = 1 + pick(16);
+        for (let j = 0; j < length; j++) {
+            text += pieces[pick(pieces.length)];
+        }
+        yield text;
+    }
+}
+
+const OPTIONS: WebUrlPatternOptions[] = [
+    AUTOLINK_WEB_URL_OPTIONS,
+    {
+        topLevelDomains: compileTlds(["com", "org", "io"]),
+        schemes: ["http", "https"],
+        opaqueSchemes: ["magnet"],
+        withoutScheme: true,
+        intranetHosts: ["localhost", "intranet"],
+    },
+    {
+        topLevelDomains: compileTlds(["com"]),
+        schemes: ["rtsp"],
+        opaqueSchemes: [],
+        withoutScheme: false,
+        intranetHosts: [],
+    },
+];
+
+describe("regExpScanner", () => {
+    test("finds all the matches of a sticky pattern", () => {
+        const pattern = /ab/y;
+        expect(scan(regExpScanner(pattern), "ab ab")).toEqual([
+            [0, "ab"],
+            [3, "ab"],
+        ]);
+        expect(pattern.lastIndex).toBe(0);
+    });
+});
+
+describe("compileWebUrlScanner", () => {
+    test.each(OPTIONS.map((options, i) => [i, options] as const))(
+        "finds the URLs of the pattern in random texts, options %i",
+        (i, options) => {
+            const pattern = regExpScanner(autolinkWebUrl(options));
+            const scanner = compileWebUrlScanner(options);
+            for (const text of randomTexts(i + 1, 3000)) {
+                expect(scan(scanner, text), text).toEqual(scan(pattern, text));
+            }
+        },
+    );
+
+    test.each([
+        "Visit www.example.com/path?q=1 or http://user:pw@[::1]:8080/a and 192.168.0.1:80.",
+        "a.b.c.d.e.f.g.com, a.b.c.d.e.f.g and a-b_c.example.org-x",
+        "bücher.de, 例え.テスト, http://例え.テスト/パス and xn--bcher-kva.xn--p1ai",
+        "http://localhost:3000/ and rtsp://cam.local/stream, not foo.sure or http://.",
+        "an email: john.doe@example.com, a path: www.example.com/(a)/b_(c)",
+    ])("finds the URLs of the pattern in %s", (text) => {
+        expect(scan(compileWebUrlScanner(AUTOLINK_WEB_URL_OPTIONS), text)).toEqual(
+            scan(regExpScanner(AUTOLINK_WEB_URL), text),
+        );
+    });
+
+    test("scans long hosts in linear time", () => {
+        const scanner = compileWebUrlScanner(AUTOLINK_WEB_URL_OPTIONS);
+        const host = "a.".repeat(20000) + "com";
+        expect(scan(scanner, host + " " + host)).toEqual([
+            [0, host],
+            [host.length + 1, host],
+        ]);
+        expect(scan(scanner, "a.".repeat(20000))).toEqual([]);
+    });
+});
+
+describe("pathological inputs", () => {
+    test.each(PATHOLOGICAL_INPUTS)("$name are linkified in linear time", ({ text }) => {
+        const input = text(50000);
+        const start = Date.now();
+        linkify(input, { ...TAG_URLS, mask: ALL | MENTIONS | HASHTAGS });
+        // Quadratic or worse matching would take minutes
+        expect(Date.now() - start).toBeLessThan(5000);
+    });
+});
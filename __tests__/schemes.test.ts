@@ -0,0 +1,111 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import { addAutoLinks, DEFAULT_URL_SCHEMES, linkify, WEB_URLS } from "../src/linkify";
+import type { UrlScheme } from "../src/linkify";
+
+function urls(text: string, urlSchemes?: readonly UrlScheme[]) {
+    return linkify(text, { mask: WEB_URLS, urlSchemes }).map((link) => [link.text, link.url]);
+}
+
+const SCHEMES: UrlScheme[] = [
+    ...DEFAULT_URL_SCHEMES,
+    { name: "ftp" },
+    { name: "sftp" },
+    { name: "ssh" },
+    { name: "git" },
+    { name: "ws" },
+    { name: "wss" },
+    { name: "myapp" },
+    { name: "magnet", authority: false },
+    { name: "matrix", authority: false },
+    { name: "slack", authority: false },
+];
+
+test("only http, https and rtsp are found by default", () => {
+    expect(urls("ftp://example.com/file and magnet:?xt=urn:btih:c12fe1")).toEqual([]);
+});
+
+test("schemes with an authority can be added", () => {
+    expect(
+        urls(
+            "get ftp://example.com/file, sftp://user@host:22/x, ssh://git@example.com " +
+                "git://example.com/repo.git wss://example.com/socket myapp://open/item?id=1.",
+            SCHEMES,
+        ),
+    ).toEqual([
+        ["ftp://example.com/file", "ftp://example.com/file"],
+        ["sftp://user@host:22/x", "sftp://user@host:22/x"],
+        ["ssh://git@example.com", "ssh://git@example.com"],
+        ["git://example.com/repo.git", "git://example.com/repo.git"],
+        ["wss://example.com/socket", "wss://example.com/socket"],
+        ["myapp://open/item?id=1", "myapp://open/item?id=1"],
+    ]);
+});
+
+test("schemes without an authority can be added", () => {
+    expect(
+        urls(
+            "join matrix:r/room:example.org, get magnet:?xt=urn:btih:c12fe1&dn=file. " +
+                "Or (slack:open?team=T123)",
+            SCHEMES,
+        ),
+    ).toEqual([
+        ["matrix:r/room:example.org", "matrix:r/room:example.org"],
+        ["magnet:?xt=urn:btih:c12fe1&dn=file", "magnet:?xt=urn:btih:c12fe1&dn=file"],
+        ["slack:open?team=T123", "slack:open?team=T123"],
+    ]);
+});
+
+test("schemes are matched case-insensitively and normalized", () => {
+    expect(urls("FTP://example.com Magnet:?xt=1", SCHEMES)).toEqual([
+        ["FTP://example.com", "ftp://example.com"],
+        ["Magnet:?xt=1", "magnet:?xt=1"],
+    ]);
+});
+
+test("the auto-prefixed scheme is configurable", () => {
+    expect(urls("example.com", [{ name: "http" }, { name: "https", autoPrefix: true }])).toEqual([
+        ["example.com", "https://example.com"],
+    ]);
+});
+
+test("URLs without a scheme are not found when no scheme is auto-prefixed", () => {
+    expect(urls("example.com and https://example.org", [{ name: "https" }])).toEqual([
+        ["https://example.org", "https://example.org"],
+    ]);
+});
+
+test("schemes missing from the list are not found", () => {
+    expect(urls("http://example.com https://example.org", [{ name: "https" }])).toEqual([
+        ["https://example.org", "https://example.org"],
+    ]);
+});
+
+test("a scheme is never found in the host of another one", () => {
+    expect(urls("ftp://example.com", [{ name: "http", autoPrefix: true }])).toEqual([]);
+});
+
+test("invalid scheme names throw", () => {
+    expect(() => urls("example.com", [{ name: "my app" }])).toThrow(TypeError);
+    expect(() => urls("example.com", [{ name: "1ab" }])).toThrow(TypeError);
+});
+
+test("addAutoLinks accepts the schemes", () => {
+    const links = addAutoLinks("ssh://example.com", WEB_URLS, { urlSchemes: SCHEMES });
+    expect(links !== false && links.map((link) => link.url)).toEqual(["ssh://example.com"]);
+});
@@ -0,0 +1,155 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import {
+    addAutoLinks,
+    CASHTAGS,
+    EMAIL_ADDRESSES,
+    HASHTAGS,
+    linkify,
+    type LinkifyOptions,
+    MENTIONS,
+    WEB_URLS,
+} from "../src/linkify";
+import { TAG_URLS } from "./tags";
+
+function find(text: string, mask: number, options?: LinkifyOptions) {
+    return linkify(text, { ...TAG_URLS, ...options, mask }).map((link) => link.text);
+}
+
+describe("mentions", () => {
+    test.each([
+        ["hi @android and @user_1!", ["@android", "@user_1"]],
+        ["@user.", ["@user"]],
+        ["@user's post", ["@user"]],
+        ["＠user", ["＠user"]],
+        ["(@user)", ["@user"]],
+        ["user@example.com", []],
+        ["@user@instance.social", []],
+        ["a@user", []],
+        ["@" + "a".repeat(15), ["@" + "a".repeat(15)]],
+        ["@" + "a".repeat(16), []],
+        ["@ user", []],
+        ["https://mastodon.social/@user", []],
+    ])("finds the mentions of %j", (text, expected) => {
+        expect(find(text, MENTIONS)).toEqual(expected);
+    });
+
+    test("leaves email addresses to the email detector", () => {
+        expect(
+            linkify("mail user@example.com", { ...TAG_URLS, mask: MENTIONS | EMAIL_ADDRESSES }),
+        ).toMatchObject([{ kind: "email", text: "user@example.com" }]);
+    });
+
+    test("reports the name", () => {
+        expect(linkify("hi @android", { ...TAG_URLS, mask: MENTIONS })).toEqual([
+            {
+                kind: "mention",
+                url: "https://app.example/u/android",
+                start: 3,
+                end: 11,
+                text: "@android",
+                schemeAdded: false,
+                parts: { name: "android" },
+            },
+        ]);
+    });
+});
+
+describe("hashtags", () => {
+    test.each([
+        ["#café #日本語 #1 #1st #tag_name", ["#café", "#日本語", "#1st", "#tag_name"]],
+        ["#tag.", ["#tag"]],
+        ["＃tag", ["＃tag"]],
+        ["#tag#tag2", []],
+        ["it&#39;s", []],
+        ["a#tag", []],
+        ["#" + "a".repeat(100), ["#" + "a".repeat(100)]],
+        ["#" + "a".repeat(101), []],
+        ["http://example.com/#section", []],
+    ])("finds the hashtags of %j", (text, expected) => {
+        expect(find(text, HASHTAGS)).toEqual(expected);
+    });
+
+    test("keeps the fragments of web URLs", () => {
+        expect(find("see example.com/#tag and #tag", WEB_URLS | HASHTAGS)).toEqual([
+            "example.com/#tag",
+            "#tag",
+        ]);
+    });
+});
+
+describe("cashtags", () => {
+    test.each([
+        ["$AAPL and $brk.a, $BRK_B!", ["$AAPL", "$brk.a", "$BRK_B"]],
+        ["$100", []],
+        ["a$AAPL", []],
+        ["$GOOGLEX", []],
+        ["$AAPL$", []],
+    ])("finds the cashtags of %j", (text, expected) => {
+        expect(find(text, CASHTAGS)).toEqual(expected);
+    });
+});
+
+describe("options", () => {
+    test("aren't part of ALL", () => {
+        expect(addAutoLinks("@user #tag $AAPL")).toBe(false);
+    });
+
+    test("build URLs from templates", () => {
+        const links = linkify("@user #café $AAPL", {
+            mask: MENTIONS | HASHTAGS | CASHTAGS,
+            mentions: { urlTemplate: "https://app.example/u/{name}" },
+            hashtags: { urlTemplate: "https://app.example/tags/{name}?src={name}" },
+            cashtags: {
+                transformFilter: (match) => "https://app.example/q/" + match[1].toUpperCase(),
+            },
+        });
+        expect(links.map((link) => link.url)).toEqual([
+            "https://app.example/u/user",
+            "https://app.example/tags/caf%C3%A9?src=caf%C3%A9",
+            "https://app.example/q/AAPL",
+        ]);
+    });
+
+    test("require a URL", () => {
+        expect(() => linkify("@user", { mask: MENTIONS })).toThrow(
+            new TypeError("Missing URL template of mentions"),
+        );
+        expect(() => linkify("#tag", { mask: HASHTAGS, hashtags: { maxLength: 10 } })).toThrow(
+            new TypeError("Missing URL template of hashtags"),
+        );
+        expect(linkify("$AAPL", { mask: WEB_URLS, cashtags: undefined })).toEqual([]);
+    });
+
+    test("limit the length of names", () => {
+        expect(
+            find("@a @ab #abc #abcd", MENTIONS | HASHTAGS, {
+                mentions: { ...TAG_URLS.mentions, minLength: 2 },
+                hashtags: { ...TAG_URLS.hashtags, maxLength: 3 },
+            }),
+        ).toEqual(["@ab", "#abc"]);
+    });
+
+    test.each([{ minLength: 0 }, { minLength: 3, maxLength: 2 }, { maxLength: 1.5 }])(
+        "reject the limits %j",
+        (limits) => {
+            const hashtags = { ...TAG_URLS.hashtags, ...limits };
+            expect(() => linkify("#tag", { mask: HASHTAGS, hashtags })).toThrow(TypeError);
+        },
+    );
+});
@@ -0,0 +1,127 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, test } from "vitest";
+import { addAutoLinks, type AutoLinkOptions, EMAIL_ADDRESSES, WEB_URLS } from "../src/linkify";
+import type { LinkSpec } from "../src/LinkSpec";
+import { createLinkifyStream } from "../src/stream";
+import type { Segment } from "../src/tokenize";
+import { random } from "./random";
+
+const TEXTS = [
+    "Visit http://www.android.com, now",
+    "see example.com:8080/docs?page=2 and mail email@android.com.",
+    "call +1 650-555-1212 or (650) 555 1212\nor 555  1234 tomorrow",
+    "ftp://example.com and example.com, http://[2001:db8::1]:8080/ too",
+    "😀android.com\tdoméin.com 현금영수증.kr 도메인.한국 a@b.cd",
+    "numbers 1.2.3.4 and 12345 67890 12345 and 192.168.0.1 and 5 5 5 5 5 5",
+    "  leading spaces http://a.com/path$?v=$val   trailing   ",
+    "email@android.com.unknowntld foo@bar.com@baz.com",
+    "\u2067مرحبا\u2069 see example.com and exa\u202Emple.com",
+    "",
+];
+
+function chunked(text: string, next: () => number) {
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length;) {
+        const length = 1 + Math.floor(next() * 8);
+        chunks.push(text.substring(i, i + length));
+        i += length;
+    }
+    return chunks;
+}
+
+function stream(chunks: string[], mask?: number, options?: AutoLinkOptions) {
+    const linkifier = createLinkifyStream(mask, options);
+    const segments: Segment[] = [];
+    for (const chunk of chunks) {
+        segments.push(...linkifier.push(chunk));
+    }
+    segments.push(...linkifier.flush());
+    return segments;
+}
+
+function linksOf(segments: Segment[]) {
+    const links: LinkSpec[] = [];
+    for (const segment of segments) {
+        if (segment.type == "link") {
+            links.push(segment.link);
+        }
+    }
+    return links;
+}
+
+describe("createLinkifyStream", () => {
+    test.each(TEXTS)("finds the links of %j whatever the chunks", (text) => {
+        const next = random(42);
+        const expected = addAutoLinks(text, undefined, { bidiControls: "exclude" }) || [];
+        for (let run = 0; run < 50; run++) {
+            const segments = stream(chunked(text, next));
+            expect(segments.map((segment) => segment.value).join("")).toEqual(text);
+            expect(linksOf(segments)).toEqual(expected);
+        }
+        expect(linksOf(stream(text.split("")))).toEqual(expected);
+        expect(linksOf(stream([text]))).toEqual(expected);
+    });
+
+    test("accepts a mask and options", () => {
+        const text = "see localhost:3000 and email@android.com";
+        const options = { intranetHosts: true as const };
+        for (const mask of [WEB_URLS, EMAIL_ADDRESSES]) {
+            expect(linksOf(stream(text.split(""), mask, options))).toEqual(
+                addAutoLinks(text, mask, options) || [],
+            );
+        }
+        const segments = stream([text], 0);
+        expect(segments.every((segment) => segment.type == "text")).toBe(true);
+        expect(segments.map((segment) => segment.value).join("")).toEqual(text);
+    });
+
+    test("strips bidi controls", () => {
+        const text = "call 555\u202E 1234 or exa\u202Emple.com";
+        const options = { bidiControls: "strip" as const };
+        expect(linksOf(stream(text.split(""), undefined, options))).toEqual(
+            addAutoLinks(text, undefined, options) || [],
+        );
+    });
+
+    test("rejects the reject policy", () => {
+        expect(() => createLinkifyStream(undefined, { bidiControls: "reject" })).toThrow(TypeError);
+    });
+
+    test("returns links as soon as they are final", () => {
+        const linkifier = createLinkifyStream();
+        expect(linkifier.push("see http://exam")).toEqual([{ type: "text", value: "see " }]);
+        expect(linkifier.push("ple.com/path")).toEqual([]);
+        expect(linkifier.push(" and ")).toMatchObject([
+            { type: "link", value: "http://example.com/path", link: { start: 4, end: 27 } },
+            { type: "text", value: " and " },
+        ]);
+        expect(linkifier.push("more")).toEqual([]);
+        expect(linkifier.flush()).toEqual([{ type: "text", value: "more" }]);
+        expect(linkifier.flush()).toEqual([]);
+    });
+
+    test("holds phone numbers back until they end", () => {
+        const linkifier = createLinkifyStream();
+        expect(linkifier.push("call 650 555 ")).toEqual([{ type: "text", value: "call " }]);
+        expect(linkifier.push("1212 ")).toEqual([]);
+        expect(linkifier.push("now ")).toMatchObject([
+            { type: "link", href: "tel:6505551212", link: { start: 5, end: 17 } },
+            { type: "text", value: " now " },
+        ]);
+    });
+});
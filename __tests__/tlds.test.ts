@@ -0,0 +1,87 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import { addAutoLinks, linkify, WEB_URLS } from "../src/linkify";
+import { compileTlds, IANA_TOP_LEVEL_DOMAINS } from "../src/patterns";
+import { IANA_TLDS } from "../src/tlds";
+
+function urls(text: string, options?: Parameters<typeof linkify>[1]) {
+    return linkify(text, { mask: WEB_URLS, ...options }).map((link) => link.text);
+}
+
+test("the IANA list is lowercase and has the Unicode form of Punycode domains", () => {
+    expect(IANA_TLDS).toContain("com");
+    expect(IANA_TLDS).toContain("dev");
+    expect(IANA_TLDS).toContain("xn--3e0b707e");
+    expect(IANA_TLDS).toContain("한국");
+    expect(IANA_TLDS.every((tld) => tld == tld.toLowerCase() && tld != "")).toBe(true);
+});
+
+test("the compiled pattern matches exactly the IANA top-level domains", () => {
+    const pattern = new RegExp("^" + IANA_TOP_LEVEL_DOMAINS + "$", "u");
+    for (const tld of IANA_TLDS) {
+        expect(pattern.test(tld), tld).toBe(true);
+        expect(pattern.test(tld + "q"), tld + "q").toBe(IANA_TLDS.includes(tld + "q"));
+    }
+    expect(pattern.test("c")).toBe(false);
+    expect(pattern.test("unknowntld")).toBe(false);
+});
+
+test("compiled patterns share prefixes", () => {
+    expect(compileTlds(["com", "co", "coop", "ab", "ac"])).toEqual("(?:a[bc]|co(?:op|m)?)");
+    expect(compileTlds(["a-b", "a-c"])).toEqual("(?:a-[bc])");
+    expect(compileTlds([])).toEqual("(?!)");
+});
+
+test("top-level domains added since 2015 are linked without a scheme", () => {
+    expect(urls("see example.dev and my.app, or shop.store")).toEqual([
+        "example.dev",
+        "my.app",
+        "shop.store",
+    ]);
+});
+
+test("top-level domains can be added", () => {
+    expect(urls("wiki.corp and build.internal")).toEqual([]);
+    expect(urls("wiki.corp and build.internal", { tlds: { add: ["corp", ".INTERNAL"] } })).toEqual([
+        "wiki.corp",
+        "build.internal",
+    ]);
+});
+
+test("top-level domains can be removed", () => {
+    expect(urls("example.zip example.com", { tlds: { remove: ["zip"] } })).toEqual(["example.com"]);
+});
+
+test("the list of top-level domains can be replaced", () => {
+    expect(urls("example.com example.org example.lan", { tlds: { list: ["com", "lan"] } })).toEqual(
+        ["example.com", "example.lan"],
+    );
+});
+
+test("Punycode top-level domains are always known", () => {
+    expect(urls("example.xn--p1ai", { tlds: { list: [] } })).toEqual(["example.xn--p1ai"]);
+});
+
+test("URLs with a scheme don't depend on the top-level domains", () => {
+    expect(urls("http://example.org", { tlds: { list: [] } })).toEqual(["http://example.org"]);
+});
+
+test("addAutoLinks accepts the top-level domains", () => {
+    const links = addAutoLinks("wiki.corp", WEB_URLS, { tlds: { add: ["corp"] } });
+    expect(links !== false && links.map((link) => link.url)).toEqual(["http://wiki.corp"]);
+});
@@ -0,0 +1,93 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from "vitest";
+import { tokenize } from "../src/tokenize";
+import { random } from "./random";
+
+test("text and link segments", () => {
+    const segments = tokenize("see google.com or test@example.com.");
+    expect(segments.map(({ type, value }) => ({ type, value }))).toEqual([
+        { type: "text", value: "see " },
+        { type: "link", value: "google.com" },
+        { type: "text", value: " or " },
+        { type: "link", value: "test@example.com" },
+        { type: "text", value: "." },
+    ]);
+    expect(segments[1]).toMatchObject({ href: "http://google.com", kind: "web" });
+    expect(segments[3]).toMatchObject({ href: "mailto:test@example.com", kind: "email" });
+});
+
+test("link at both ends", () => {
+    const segments = tokenize("google.com");
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ type: "link", value: "google.com" });
+});
+
+test("empty text has no segments", () => {
+    expect(tokenize("")).toEqual([]);
+});
+
+test("overlapping links are skipped", () => {
+    const segments = tokenize("test@example.com", { pattern: /example/, overlaps: "keep" });
+    expect(segments.map((s) => s.value)).toEqual(["test@example.com"]);
+});
+
+const FRAGMENTS = [
+    " ",
+    "\n",
+    ".",
+    ",",
+    "(",
+    ")",
+    "@",
+    "/",
+    ":",
+    "?",
+    "#",
+    "-",
+    "a",
+    "é",
+    "😀",
+    "google.com",
+    "http://",
+    "https://www.example.org/x?y=1",
+    "test@example.com",
+    "+1 919 555 1212",
+    "192.168.0.1",
+    "www.",
+    "xn--bcher-kva.ch",
+];
+
+test("segments join back to the text", () => {
+    const next = random(42);
+    for (let i = 0; i < 500; i++) {
+        let text = "";
+        const length = Math.floor(next() * 20);
+        for (let j = 0; j < length; j++) {
+            text += FRAGMENTS[Math.floor(next() * FRAGMENTS.length)];
+        }
+
+        const segments = tokenize(text);
+        expect(segments.map((s) => s.value).join(""), text).toEqual(text);
+        for (let j = 0; j < segments.length; j++) {
+            expect(segments[j].value, text).not.toEqual("");
+            if (j > 0 && segments[j].type == "text") {
+                expect(segments[j - 1].type, text).toEqual("link");
+            }
+        }
+    }
+});
@@ -0,0 +1,78 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Rebuilds src/tlds.ts from a local copy of the IANA list of top-level domains, available at
+// https://data.iana.org/TLD/tlds-alpha-by-domain.txt
+//
+// Usage: node scripts/generate-tlds.mjs [path/to/tlds-alpha-by-domain.txt]
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { domainToUnicode } from "node:url";
+
+const LICENSE = readFileSync(new URL(import.meta.url), "utf8")
+    .split("\n")
+    .slice(0, 15)
+    .join("\n");
+
+const CHUNK_LENGTH = 88;
+
+const input = process.argv[2] ?? "tlds-alpha-by-domain.txt";
+const lines = readFileSync(input, "utf8").split("\n");
+const version = lines.find((line) => line.startsWith("#"))?.replace(/^#\s*/, "");
+
+const tlds = [];
+for (const line of lines) {
+    const tld = line.trim().toLowerCase();
+    if (tld == "" || tld.startsWith("#")) {
+        continue;
+    }
+    tlds.push(tld);
+    if (tld.startsWith("xn--")) {
+        const unicode = domainToUnicode(tld);
+        if (unicode == "" || unicode == tld) {
+            throw new Error("Invalid Punycode top-level domain: " + tld);
+        }
+        tlds.push(unicode);
+    }
+}
+
+const chunks = [];
+let chunk = "";
+for (const tld of tlds) {
+    if (chunk != "" && chunk.length + tld.length > CHUNK_LENGTH) {
+        chunks.push(chunk);
+        chunk = "";
+    }
+    chunk += (chunk == "" ? "" : " ") + tld;
+}
+chunks.push(chunk);
+
+const source = `${LICENSE}
+
+// Generated by scripts/generate-tlds.mjs, do not edit.
+// ${version ?? "Unknown version"}
+
+/**
+ * The top-level domains of the IANA list, lowercase. Internationalized ones are both in their
+ * Punycode and Unicode forms.
+ */
+export const IANA_TLDS: readonly string[] = (
+${chunks.map((c, i) => "    " + JSON.stringify(i == chunks.length - 1 ? c : c + " ")).join(" +\n")}
+).split(" ");
+`;
+
+writeFileSync(new URL("../src/tlds.ts", import.meta.url), source);
+console.log(`Wrote ${tlds.length} top-level domains to src/tlds.ts`);
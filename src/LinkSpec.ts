@@ -15,13 +15,79 @@
  * limitations under the License.
  */
 
-export interface LinkSpec {
+import type { EmailParts, PhoneParts, TagParts, UrlParts } from "./parts";
+import type { LinkRisk } from "./risk";
+
+/**
+ * The detector that produced a link, `custom` being a pattern given to `addLinks`.
+ */
+export type LinkKind = "web" | "email" | "phone" | "mention" | "hashtag" | "cashtag" | "custom";
+
+interface LinkSpecBase {
+    /** The URL of the link, with its scheme */
     url: string;
+    /** Index of the first character of the link in the text, inclusive */
     start: number;
+    /** Index of the last character of the link in the text, exclusive */
     end: number;
+    /** The text that was matched, `text.substring(start, end)` */
+    text: string;
+    /** Whether the scheme of `url` was prepended because the text had none */
+    schemeAdded: boolean;
+    /**
+     * The text to show for the link, with the Punycode labels of its host decoded. Only set for
+     * web and email links by the `idn` option of `linkify`.
+     */
+    display?: string;
+    /**
+     * The canonical form of `url`, to compare links and look up their previews. Only set for web
+     * links by the `canonical` option of `linkify`.
+     */
+    canonicalUrl?: string;
+    /**
+     * Why the link may be deceptive. Only set for links other than phone numbers by the `risk`
+     * option of `linkify`.
+     */
+    risk?: LinkRisk;
+}
+
+export interface WebLinkSpec extends LinkSpecBase {
+    kind: "web";
+    parts: UrlParts;
+}
+
+export interface EmailLinkSpec extends LinkSpecBase {
+    kind: "email";
+    parts: EmailParts;
+}
+
+export interface PhoneLinkSpec extends LinkSpecBase {
+    kind: "phone";
+    parts: PhoneParts;
 }
 
-export function pruneOverlaps(links: LinkSpec[]) {
+export interface TagLinkSpec extends LinkSpecBase {
+    kind: "mention" | "hashtag" | "cashtag";
+    parts: TagParts;
+}
+
+export interface CustomLinkSpec extends LinkSpecBase {
+    kind: "custom";
+    /** Name of the registered detector that found the link, unset for the `pattern` option */
+    detector?: string;
+}
+
+export type LinkSpec = WebLinkSpec | EmailLinkSpec | PhoneLinkSpec | TagLinkSpec | CustomLinkSpec;
+
+/**
+ * Removes the links that overlap others, keeping the one of higher priority, then the longest.
+ * `onRemove` is told about each link removed and the one it overlapped.
+ */
+export function pruneOverlaps(
+    links: LinkSpec[],
+    priority?: (link: LinkSpec) => number,
+    onRemove?: (removed: LinkSpec, by: LinkSpec) => void,
+) {
     const c = (a: LinkSpec, b: LinkSpec) => {
         if (a.start < b.start) {
             return -1;
@@ -46,6 +112,16 @@ export function pruneOverlaps(links: LinkSpec[]) {
         const b = links[i + 1];
         let remove = -1;
         if (a.start <= b.start && a.end > b.start) {
+            const pa = priority?.(a) ?? 0;
+            const pb = priority?.(b) ?? 0;
+            if (pa != pb) {
+                // The kept link is checked again against the one before the removed one
+                onRemove?.(pa > pb ? b : a, pa > pb ? a : b);
+                links.splice(pa > pb ? i + 1 : i, 1);
+                len--;
+                i = Math.max(i - 1, 0);
+                continue;
+            }
             if (b.end <= a.end) {
                 remove = i + 1;
             } else if (a.end - a.start > b.end - b.start) {
@@ -54,6 +130,7 @@ export function pruneOverlaps(links: LinkSpec[]) {
                 remove = i;
             }
             if (remove != -1) {
+                onRemove?.(links[remove], remove == i ? b : a);
                 links.splice(remove, 1);
                 len--;
                 continue;
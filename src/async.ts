@@ -0,0 +1,132 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    type LinkifyResult,
+    type StopReason,
+    dropCutLinks,
+    isExhausted,
+    limitInput,
+    remainingTime,
+    startBudget,
+} from "./limits";
+import { BIDI_CONTROL, type LinkifyOptions, linkify, linkifyWithLimits } from "./linkify";
+import type { LinkSpec } from "./LinkSpec";
+import { convertOffsets } from "./offsets";
+import { isSeparator } from "./stream";
+
+// Provided by browsers and Node.js, the library only targets the ECMAScript one
+declare function setTimeout(callback: () => void, delay?: number): unknown;
+
+/**
+ * Options of {@link linkifyAsync}.
+ */
+export interface AsyncLinkifyOptions extends LinkifyOptions {
+    /**
+     * Length of the parts of the text searched between two yields to the event loop, in UTF-16
+     * code units, 65536 by default. Parts are extended up to the next separating whitespace.
+     */
+    chunkSize?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 65536;
+
+function result(links: LinkSpec[], stopped: StopReason | undefined): LinkifyResult {
+    return stopped === undefined ? { links } : { links, stopped };
+}
+
+/**
+ * Finds the links in a text as {@link linkifyWithLimits} does, a chunk at a time, yielding to the
+ * event loop between chunks so that a user interface stays responsive while a large text is
+ * searched.
+ *
+ * Chunks end after a whitespace that no built-in detector matches across, see
+ * {@link createLinkifyStream}. Custom patterns, detectors and phone number matchers must not find
+ * links across line breaks and tabs either. The time budget and signal are also checked between
+ * chunks.
+ *
+ * @param text    the text to search for links
+ * @param options which links to search for, how and within which limits
+ * @return the links found and why the search stopped early, if it did
+ * @throws TypeError if the chunk size or a limit is invalid
+ */
+export async function linkifyAsync(
+    text: string,
+    options?: AsyncLinkifyOptions,
+): Promise<LinkifyResult> {
+    const chunkSize = options?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!(Number.isInteger(chunkSize) && chunkSize > 0)) {
+        throw new TypeError("Invalid chunk size: " + chunkSize);
+    }
+    const budget = startBudget(options);
+    const limited = limitInput(text, options, budget);
+    if (limited === undefined) {
+        return result([], budget.stopped);
+    }
+    text = limited.text;
+
+    const chunkOptions: LinkifyOptions = {
+        ...options,
+        maxLinks: undefined,
+        maxInputLength: undefined,
+        timeBudget: undefined,
+        offsetUnit: undefined,
+    };
+    if ((options?.bidiControls ?? "reject") == "reject" && BIDI_CONTROL.test(text)) {
+        // The text is rejected as a whole, which linkify logs
+        const links = dropCutLinks(linkify(text, chunkOptions), limited.cut, budget);
+        return result(links, budget.stopped);
+    }
+
+    let links: LinkSpec[] = [];
+    let start = 0;
+    while (start < text.length && !isExhausted(budget)) {
+        let end = Math.min(start + chunkSize, text.length);
+        while (end < text.length && !isSeparator(text, end - 1)) {
+            end++;
+        }
+        // The separator before the chunk is kept for the lookbehinds of the patterns
+        const from = Math.max(start - 1, 0);
+        const chunk = linkifyWithLimits(text.substring(from, end), {
+            ...chunkOptions,
+            timeBudget: remainingTime(budget),
+        });
+        for (const link of chunk.links) {
+            link.start += from;
+            link.end += from;
+            links.push(link);
+        }
+        budget.stopped ??= chunk.stopped;
+
+        const maxLinks = options?.maxLinks;
+        if (maxLinks !== undefined && links.length > maxLinks) {
+            links.sort((a, b) => a.start - b.start);
+            links = links.slice(0, maxLinks);
+            budget.stopped ??= "max-links";
+            break;
+        }
+        start = end;
+        if (start < text.length) {
+            await new Promise<void>((resolve) => setTimeout(resolve, 0));
+        }
+    }
+
+    links = dropCutLinks(links, limited.cut, budget);
+    if (options?.offsetUnit !== undefined && options.offsetUnit != "utf16") {
+        links = convertOffsets(text, links, options.offsetUnit);
+    }
+    return result(links, budget.stopped);
+}
@@ -0,0 +1,164 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { parseUrlParts } from "./parts";
+import { toASCII } from "./punycode";
+
+/**
+ * How URLs are canonicalized, see {@link canonicalizeUrl}.
+ */
+export interface CanonicalOptions {
+    /**
+     * Names of the query parameters removed, a trailing `*` matching any suffix as in `utm_*`.
+     * {@link DEFAULT_TRACKING_PARAMETERS} by default.
+     */
+    trackingParameters?: readonly string[];
+}
+
+/**
+ * Query parameters used to track clicks, from analytics and advertising platforms.
+ */
+export const DEFAULT_TRACKING_PARAMETERS: readonly string[] = [
+    "utm_*",
+    "fbclid",
+    "gclid",
+    "dclid",
+    "gbraid",
+    "wbraid",
+    "msclkid",
+    "yclid",
+    "twclid",
+    "igshid",
+    "mc_cid",
+    "mc_eid",
+    "_ga",
+    "_gl",
+];
+
+const DEFAULT_PORTS: Record<string, number> = {
+    http: 80,
+    https: 443,
+    ws: 80,
+    wss: 443,
+    ftp: 21,
+    rtsp: 554,
+};
+
+const UNRESERVED = /[A-Za-z0-9\-._~]/;
+
+/**
+ * Decodes the percent-encoded unreserved characters and uppercases the other escapes, leaving
+ * the `%` that don't start an escape alone.
+ */
+function normalizePercentEncoding(s: string) {
+    return s.replace(/%([0-9a-fA-F]{2})/g, (escape, hex: string) => {
+        const c = String.fromCharCode(parseInt(hex, 16));
+        return UNRESERVED.test(c) ? c : escape.toUpperCase();
+    });
+}
+
+/**
+ * Removes the `.` and `..` segments of a path, as RFC 3986 section 5.2.4.
+ */
+function removeDotSegments(path: string) {
+    const segments = path.split("/");
+    const output: string[] = [];
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const last = i == segments.length - 1;
+        if (segment == "." || segment == "..") {
+            if (segment == ".." && output.length > 1) {
+                output.pop();
+            }
+            if (last) {
+                output.push("");
+            }
+            continue;
+        }
+        output.push(segment);
+    }
+    return output.join("/");
+}
+
+function isTrackingParameter(name: string, patterns: readonly string[]) {
+    return patterns.some((pattern) =>
+        pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name == pattern,
+    );
+}
+
+/**
+ * Canonicalizes a URL, so that URLs of the same resource compare equal: the scheme and host are
+ * lowercased, the host converted to ASCII with Punycode, the user info and the default port of
+ * the scheme removed, percent-encoding normalized, `.` and `..` path segments resolved, and
+ * tracking parameters removed from the query.
+ *
+ * Canonical URLs are keys to dedupe or allowlist links, so they never hold credentials.
+ *
+ * URLs without an authority, like `mailto:` ones, are returned as they are.
+ *
+ * @param url     a URL that starts with a scheme
+ * @param options how to canonicalize it
+ * @return the canonical URL
+ */
+export function canonicalizeUrl(url: string, options?: CanonicalOptions): string {
+    const parts = parseUrlParts(url);
+    if (parts === undefined || !/^[a-zA-Z][a-zA-Z0-9+.\-]*:\/\//.test(url)) {
+        return url;
+    }
+    const { scheme, port, query, fragment } = parts;
+
+    let host: string;
+    try {
+        host = toASCII(parts.host);
+    } catch {
+        host = parts.host.toLowerCase();
+    }
+
+    let path = removeDotSegments(normalizePercentEncoding(parts.path));
+    if (path == "") {
+        path = "/";
+    }
+
+    let canonical = scheme + "://" + host;
+    if (port !== undefined && port != DEFAULT_PORTS[scheme]) {
+        canonical += ":" + port;
+    }
+    canonical += path;
+
+    if (query !== undefined) {
+        const patterns = options?.trackingParameters ?? DEFAULT_TRACKING_PARAMETERS;
+        const parameters = query
+            .split("&")
+            .filter((parameter) => {
+                const name = parameter.split("=", 1)[0];
+                let decoded = name;
+                try {
+                    decoded = decodeURIComponent(name.replaceAll("+", " "));
+                } catch {
+                    // Malformed escapes are compared as they are
+                }
+                return parameter != "" && !isTrackingParameter(decoded, patterns);
+            })
+            .map(normalizePercentEncoding);
+        if (parameters.length > 0) {
+            canonical += "?" + parameters.join("&");
+        }
+    }
+    if (fragment !== undefined) {
+        canonical += "#" + normalizePercentEncoding(fragment);
+    }
+    return canonical;
+}
@@ -0,0 +1,220 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    ALL,
+    CASHTAGS,
+    EMAIL_ADDRESSES,
+    HASHTAGS,
+    MENTIONS,
+    type MatchFilter,
+    PHONE_NUMBERS,
+    type TransformFilter,
+    WEB_URLS,
+} from "./linkify";
+import type { LinkSpec } from "./LinkSpec";
+
+/**
+ * A detector of custom links, like ticket IDs, commit SHAs or order numbers. Its links are of the
+ * `custom` kind, with its name as `detector`.
+ */
+export interface Detector {
+    /** Name of the detector, unique in a registry */
+    name: string;
+
+    /**
+     * Pattern whose matches are links. It doesn't need the `g` flag, the `y` flag is ignored and
+     * its `lastIndex` is neither used nor modified.
+     */
+    pattern?: RegExp;
+
+    /**
+     * Finds the ranges of the links of a text, instead of `pattern`. The ranges are in UTF-16
+     * code units, and the match given to `transformFilter` is the text of the range alone.
+     */
+    scan?: (text: string) => Iterable<{ start: number; end: number }>;
+
+    /** Filter allowing additional control over which matches are converted into links */
+    matchFilter?: MatchFilter;
+
+    /** Filter allowing to update the URL of the links */
+    transformFilter?: TransformFilter;
+
+    /**
+     * Schemes (eg `https://`) of the links. The first one is prepended to the URLs that don't
+     * start with any of them, and the case of the ones that do is normalized.
+     */
+    schemes?: string[];
+
+    /**
+     * Priority of the links when they overlap others, 0 by default. A link is kept over an
+     * overlapping one of lower priority even when shorter, links of equal priority keep the
+     * longest.
+     */
+    priority?: number;
+}
+
+/**
+ * Names of the built-in detectors, as the `kind` of their links.
+ */
+export type BuiltInDetectorName = "web" | "email" | "phone" | "mention" | "hashtag" | "cashtag";
+
+const BUILT_IN_BITS: Record<BuiltInDetectorName, number> = {
+    web: WEB_URLS,
+    email: EMAIL_ADDRESSES,
+    phone: PHONE_NUMBERS,
+    mention: MENTIONS,
+    hashtag: HASHTAGS,
+    cashtag: CASHTAGS,
+};
+
+/**
+ * The detectors `linkify` runs, see {@link createDetectorRegistry}.
+ */
+export interface DetectorRegistry {
+    /**
+     * Adds a custom detector, enabled, after the ones already added.
+     *
+     * @param detector the detector
+     * @throws TypeError if a detector of the same name is registered, or if it doesn't have
+     * exactly one of `pattern` and `scan`
+     */
+    register(detector: Detector): void;
+
+    /**
+     * Removes a custom detector.
+     *
+     * @param name the name of the detector
+     * @return whether it was registered
+     * @throws TypeError if the name is the one of a built-in detector
+     */
+    unregister(name: string): boolean;
+
+    /**
+     * Turns a built-in or custom detector on or off.
+     *
+     * @throws TypeError if no detector has this name
+     */
+    setEnabled(name: string, enabled: boolean): void;
+
+    /**
+     * Changes the priority of a built-in or custom detector.
+     *
+     * @throws TypeError if no detector has this name
+     */
+    setPriority(name: string, priority: number): void;
+
+    /** Mask of the enabled built-in detectors */
+    readonly mask: number;
+
+    /** The enabled custom detectors, in the order they were registered */
+    readonly detectors: readonly Detector[];
+
+    /**
+     * The priority of the detector that found a link, 0 for links of an unknown detector.
+     */
+    priorityOf(link: LinkSpec): number;
+}
+
+interface Entry {
+    detector?: Detector;
+    enabled: boolean;
+    priority: number;
+}
+
+function isBuiltIn(name: string): name is BuiltInDetectorName {
+    return Object.hasOwn(BUILT_IN_BITS, name);
+}
+
+/**
+ * Creates a registry of detectors, to pass as the `registry` option of `linkify`. It holds the
+ * built-in detectors, enabled as in the mask, and custom ones can be added to it.
+ *
+ * @param mask the built-in detectors to enable, {@link ALL} by default
+ * @return the registry
+ */
+export function createDetectorRegistry(mask: number = ALL): DetectorRegistry {
+    const entries = new Map<string, Entry>();
+    for (const [name, bit] of Object.entries(BUILT_IN_BITS)) {
+        entries.set(name, { enabled: (mask & bit) != 0, priority: 0 });
+    }
+
+    const entry = (name: string) => {
+        const found = entries.get(name);
+        if (found === undefined) {
+            throw new TypeError("Unknown detector: " + name);
+        }
+        return found;
+    };
+
+    return {
+        register(detector) {
+            if (entries.has(detector.name)) {
+                throw new TypeError("Detector already registered: " + detector.name);
+            }
+            if ((detector.pattern === undefined) == (detector.scan === undefined)) {
+                throw new TypeError(
+                    "Detector " + detector.name + " must have either a pattern or a scan function",
+                );
+            }
+            entries.set(detector.name, {
+                detector,
+                enabled: true,
+                priority: detector.priority ?? 0,
+            });
+        },
+
+        unregister(name) {
+            if (isBuiltIn(name)) {
+                throw new TypeError("Built-in detectors can't be removed: " + name);
+            }
+            return entries.delete(name);
+        },
+
+        setEnabled(name, enabled) {
+            entry(name).enabled = enabled;
+        },
+
+        setPriority(name, priority) {
+            entry(name).priority = priority;
+        },
+
+        get mask() {
+            let enabled = 0;
+            for (const [name, bit] of Object.entries(BUILT_IN_BITS)) {
+                if (entries.get(name)!.enabled) {
+                    enabled |= bit;
+                }
+            }
+            return enabled;
+        },
+
+        get detectors() {
+            const detectors: Detector[] = [];
+            for (const { detector, enabled } of entries.values()) {
+                if (detector !== undefined && enabled) {
+                    detectors.push(detector);
+                }
+            }
+            return detectors;
+        },
+
+        priorityOf(link) {
+            const name = link.kind == "custom" ? link.detector : link.kind;
+            return (name !== undefined ? entries.get(name)?.priority : undefined) ?? 0;
+        },
+    };
+}
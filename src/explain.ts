@@ -0,0 +1,129 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { StopReason } from "./limits";
+import type { LinkKind, LinkSpec } from "./LinkSpec";
+import type { LogEntry } from "./log";
+
+/**
+ * What became of a candidate:
+ * - `linked`: it is one of the links,
+ * - `url-filter`: a web URL preceded by `@`, as the domain of an email address,
+ * - `match-filter`: rejected by the `matchFilter` of the custom pattern or detector,
+ * - `no-letter`: a hashtag without any letter, like `#1`,
+ * - `inside-link`: a tag inside a web URL or an email address, given as `by`,
+ * - `bidi-control`: it has or touches a bidi control, with the `exclude` policy,
+ * - `overlap`: removed as it overlaps the link given as `by`,
+ * - `truncated`: it reaches the end of a text cut at `maxInputLength`,
+ * - `max-links`: left out as it comes after the first `maxLinks` links.
+ */
+export type CandidateFate =
+    | "linked"
+    | "url-filter"
+    | "match-filter"
+    | "no-letter"
+    | "inside-link"
+    | "bidi-control"
+    | "overlap"
+    | "truncated"
+    | "max-links";
+
+/**
+ * A range of the text, as found by a detector.
+ */
+export interface Span {
+    kind: LinkKind;
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * A match of a detector, linked or not.
+ */
+export interface Candidate extends Span {
+    /** Name of the registered detector, for its `custom` candidates */
+    detector?: string;
+    /** Range of the link after the punctuation was trimmed, when it differs from the match */
+    trimmed?: { start: number; end: number };
+    fate: CandidateFate;
+    /** The link that excluded the candidate, for the `inside-link` and `overlap` fates */
+    by?: Span;
+}
+
+/**
+ * The links of a text and how they were found, see {@link explainLinks}.
+ */
+export interface Explanation {
+    /** The links, as {@link linkify} returns them */
+    links: LinkSpec[];
+    /** The matches of all the detectors, ordered by start */
+    candidates: Candidate[];
+    /** Why no link was searched for, when the text was rejected as a whole */
+    rejected?: LogEntry;
+    /** Why the search stopped early because of a limit of the options, when it did */
+    stopped?: StopReason;
+}
+
+/**
+ * What the detectors found while linkifying a text.
+ *
+ * @hide
+ */
+export interface Trace {
+    candidates: Candidate[];
+    /** The candidate of each link, until it is pruned */
+    byLink: Map<LinkSpec, Candidate>;
+    rejected?: LogEntry;
+}
+
+/**
+ * Adds a candidate to a trace, along with the link it became if any.
+ *
+ * @hide
+ */
+export function addCandidate(
+    trace: Trace | undefined,
+    candidate: Omit<Candidate, "fate">,
+    link: LinkSpec | undefined,
+    fate: CandidateFate = "linked",
+) {
+    if (trace === undefined) {
+        return;
+    }
+    const traced: Candidate = { ...candidate, fate };
+    trace.candidates.push(traced);
+    if (link !== undefined) {
+        trace.byLink.set(link, traced);
+    }
+}
+
+/**
+ * Sets the fate of the candidate a link came from, when it is dropped.
+ *
+ * @hide
+ */
+export function setFate(trace: Trace | undefined, link: LinkSpec, fate: CandidateFate) {
+    const candidate = trace?.byLink.get(link);
+    if (candidate !== undefined) {
+        candidate.fate = fate;
+    }
+}
+
+/** @hide */
+export function toSpan({ kind, start, end, text }: Span): Span {
+    return { kind, start, end, text };
+}
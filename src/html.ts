@@ -0,0 +1,172 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LinkKind, LinkSpec } from "./LinkSpec";
+import { toSegments } from "./tokenize";
+
+/**
+ * An `<a>` element about to be rendered. Attribute values and text are raw, they are escaped
+ * when rendered.
+ */
+export interface Anchor {
+    href: string;
+    /** The text displayed inside of the element */
+    text: string;
+    /** Attributes other than `href` */
+    attributes: Record<string, string>;
+}
+
+/**
+ * Customizes the anchor of a link before it's rendered.
+ *
+ * @param link   the link being rendered
+ * @param anchor the anchor built from the options
+ * @return the anchor to render, `undefined` to render `anchor` or `false` to render the text of
+ *         the link without an anchor
+ */
+export type AnchorRenderer = (link: LinkSpec, anchor: Anchor) => Anchor | false | undefined;
+
+export interface HtmlOptions {
+    /** The `target` attribute of the anchors, none by default */
+    target?: string;
+    /** The `rel` attribute of the anchors, an empty string omits it */
+    rel?: string;
+    /** The `class` attribute of the anchors, for all of them or per link kind */
+    className?: string | Partial<Record<LinkKind, string>>;
+    /** Extra attributes of the anchors, per link kind */
+    attributes?: Partial<Record<LinkKind, Record<string, string>>>;
+    /** Called for each anchor before it's rendered */
+    renderAnchor?: AnchorRenderer;
+}
+
+const DEFAULT_REL = "noopener noreferrer nofollow";
+
+/**
+ * Schemes that run code or embed content when followed.
+ */
+const UNSAFE_SCHEMES = ["javascript:", "data:", "vbscript:"];
+
+/**
+ * Browsers ignore leading C0 controls and spaces of URLs, and tabs and newlines anywhere in them.
+ */
+const IGNORED_URL_CHARS = /^[\u0000- ]+|[\t\n\r]/g;
+
+const ATTRIBUTE_NAME = /^[^\s"'>/=\u0000-\u001F\u007F]+$/;
+
+const ESCAPES: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#39;",
+};
+
+/**
+ * Escapes a text so that it can be used as HTML text or as an attribute value.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (c) => ESCAPES[c]);
+}
+
+/**
+ * Whether an href is safe to render, i.e. doesn't use one of the `javascript:`, `data:` or
+ * `vbscript:` schemes.
+ */
+export function isSafeHref(href: string): boolean {
+    const normalized = href.replace(IGNORED_URL_CHARS, "").toLowerCase();
+    return !UNSAFE_SCHEMES.some((scheme) => normalized.startsWith(scheme));
+}
+
+function buildAnchor(link: LinkSpec, text: string, options: HtmlOptions | undefined): Anchor {
+    const attributes: Record<string, string> = {};
+    if (options?.target !== undefined) {
+        attributes.target = options.target;
+    }
+    const rel = options?.rel ?? DEFAULT_REL;
+    if (rel != "") {
+        attributes.rel = rel;
+    }
+    const className =
+        typeof options?.className == "string" ? options.className : options?.className?.[link.kind];
+    if (className !== undefined) {
+        attributes.class = className;
+    }
+    Object.assign(attributes, options?.attributes?.[link.kind]);
+
+    return { href: link.url, text, attributes };
+}
+
+function renderAnchor(anchor: Anchor) {
+    let html = '<a href="' + escapeHtml(anchor.href) + '"';
+    for (const [name, value] of Object.entries(anchor.attributes)) {
+        if (name.toLowerCase() == "href") {
+            continue;
+        }
+        if (!ATTRIBUTE_NAME.test(name)) {
+            throw new TypeError("Invalid attribute name: " + JSON.stringify(name));
+        }
+        html += " " + name + '="' + escapeHtml(value) + '"';
+    }
+    return html + ">" + escapeHtml(anchor.text) + "</a>";
+}
+
+/**
+ * Renders the anchor of a link.
+ *
+ * @param link    the link to render
+ * @param text    the text of the link, unescaped
+ * @param options how to render the anchor
+ * @return the HTML markup of the anchor or undefined if it was vetoed or its href is unsafe
+ */
+export function renderLink(
+    link: LinkSpec,
+    text: string,
+    options: HtmlOptions | undefined,
+): string | undefined {
+    let anchor: Anchor | false | undefined = buildAnchor(link, text, options);
+    if (options?.renderAnchor !== undefined) {
+        anchor = options.renderAnchor(link, anchor) ?? anchor;
+    }
+    if (anchor === false || !isSafeHref(anchor.href)) {
+        return undefined;
+    }
+    return renderAnchor(anchor);
+}
+
+/**
+ * Renders a text and the links found in it as HTML.
+ *
+ * All the text is escaped and each link becomes an `<a>` element, except the ones whose href uses
+ * a `javascript:`, `data:` or `vbscript:` scheme that are rendered as text. Links overlapping a
+ * previous one are ignored.
+ *
+ * @param text    the text the links were found in
+ * @param links   the links, as returned by {@link linkify}
+ * @param options how to render the anchors
+ * @return the HTML markup
+ */
+export function toHtml(text: string, links: readonly LinkSpec[], options?: HtmlOptions): string {
+    let html = "";
+    for (const segment of toSegments(text, links)) {
+        if (segment.type == "text") {
+            html += escapeHtml(segment.value);
+            continue;
+        }
+
+        html += renderLink(segment.link, segment.value, options) ?? escapeHtml(segment.value);
+    }
+    return html;
+}
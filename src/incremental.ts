@@ -0,0 +1,113 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ALL, type AutoLinkOptions, BIDI_CONTROL, linkify } from "./linkify";
+import type { LinkSpec } from "./LinkSpec";
+import { isSeparator } from "./stream";
+
+/**
+ * A change to a text: `deleted` characters are removed at `offset`, then `inserted` is inserted
+ * there. Offsets and lengths are in UTF-16 code units.
+ */
+export interface TextEdit {
+    offset: number;
+    deleted: number;
+    inserted: string;
+}
+
+/**
+ * Applies an edit to a text.
+ *
+ * @param text the text before the edit
+ * @param edit the edit
+ * @return the text after the edit
+ * @throws RangeError if the edit is outside of the text
+ */
+export function applyEdit(text: string, edit: TextEdit): string {
+    const { offset, deleted, inserted } = edit;
+    if (offset < 0 || deleted < 0 || offset + deleted > text.length) {
+        throw new RangeError("Edit outside of the text: " + JSON.stringify(edit));
+    }
+    return text.substring(0, offset) + inserted + text.substring(offset + deleted);
+}
+
+/**
+ * Updates the links of a text after an edit, as a text editor would on every keystroke. Only the
+ * part of the text around the edit, between the separating whitespace before and after it, is
+ * searched again. The links before it are kept, and the ones after it are shifted.
+ *
+ * The result is the same as the links {@link addAutoLinks} finds in the edited text, given the
+ * links it found in the text before the edit with the same mask and options.
+ *
+ * @param text     the text before the edit
+ * @param previous the links of the text before the edit
+ * @param edit     the edit
+ * @param mask     mask to define which kinds of links will be searched
+ * @param options  options used while identifying links, as for {@link addAutoLinks}
+ * @return the links of the edited text
+ * @throws RangeError if the edit is outside of the text
+ */
+export function relinkify(
+    text: string,
+    previous: readonly LinkSpec[],
+    edit: TextEdit,
+    mask?: number,
+    options?: AutoLinkOptions,
+): LinkSpec[] {
+    const edited = applyEdit(text, edit);
+    const linkifyOptions = { ...options, mask: mask ?? ALL, trimPunctuation: false };
+    if (mask == 0) {
+        return [];
+    }
+    if ((options?.bidiControls ?? "reject") == "reject") {
+        // A bidi control anywhere changes the links of the whole text
+        if (BIDI_CONTROL.test(edited)) {
+            return [];
+        }
+        const removed = text.substring(edit.offset, edit.offset + edit.deleted);
+        if (BIDI_CONTROL.test(removed)) {
+            return linkify(edited, linkifyOptions);
+        }
+    }
+
+    // The window to search again starts after a separator that is before the edit, so the same
+    // in both texts, and ends after one that is a separator in both texts
+    const delta = edit.inserted.length - edit.deleted;
+    let start = edit.offset;
+    while (start > 0 && !isSeparator(edited, start - 1)) {
+        start--;
+    }
+    let end = edit.offset + edit.inserted.length;
+    while (end < edited.length && !(isSeparator(edited, end) && isSeparator(text, end - delta))) {
+        end++;
+    }
+    if (end < edited.length) {
+        end++;
+    }
+
+    const links: LinkSpec[] = previous.filter((link) => link.end <= start);
+    // The separator before the window is kept, for the lookbehinds of the patterns
+    const context = Math.max(start - 1, 0);
+    for (const link of linkify(edited.substring(context, end), linkifyOptions)) {
+        links.push({ ...link, start: link.start + context, end: link.end + context });
+    }
+    for (const link of previous) {
+        if (link.start >= end - delta) {
+            links.push({ ...link, start: link.start + delta, end: link.end + delta });
+        }
+    }
+    return links;
+}
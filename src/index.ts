@@ -15,11 +15,92 @@
  * limitations under the License.
  */
 
-import { addAutoLinks, addLinks } from "./linkify";
-import { ALL, EMAIL_ADDRESSES, WEB_URLS } from "./linkify";
-import type { MatchFilter, TransformFilter } from "./linkify";
-import type { LinkSpec } from "./LinkSpec";
+import { addAutoLinks, addLinks, explainLinks, linkify, linkifyWithLimits } from "./linkify";
+import { ALL, EMAIL_ADDRESSES, PHONE_NUMBERS, WEB_URLS } from "./linkify";
+import { CASHTAGS, HASHTAGS, MENTIONS } from "./linkify";
+import { DEFAULT_URL_SCHEMES } from "./linkify";
+import { sPhoneNumberMatchFilter, sPhoneNumberTransformFilter } from "./linkify";
+import type { AutoLinkOptions, LinkifyOptions, MatchFilter, TransformFilter } from "./linkify";
+import type { BidiControlPolicy, TldOptions, UrlScheme } from "./linkify";
+import type { LinkSpec, LinkKind } from "./LinkSpec";
+import type { CustomLinkSpec, EmailLinkSpec, PhoneLinkSpec, WebLinkSpec } from "./LinkSpec";
+import type { TagLinkSpec } from "./LinkSpec";
+import type { EmailParts, PhoneParts, TagParts, UrlParts } from "./parts";
+import type { TagKind, TagOptions } from "./social";
+import { isSafeHref, toHtml } from "./html";
+import type { Anchor, AnchorRenderer, HtmlOptions } from "./html";
+import { findLinksInHtml, findLinksInHtmlWithLimits, linkifyHtml } from "./linkifyHtml";
+import type { HtmlLinkifyOptions } from "./linkifyHtml";
+import { findLinksInMarkdown, linkifyMarkdown } from "./linkifyMarkdown";
+import type { MarkdownLinkifyOptions } from "./linkifyMarkdown";
+import { PHONE } from "./patterns";
+import { tokenize, toSegments } from "./tokenize";
+import type { LinkSegment, Segment, TextSegment } from "./tokenize";
+import { builtInPhoneNumberMatcher } from "./phone";
+import { IANA_TLDS } from "./tlds";
+import { toASCII, toUnicode } from "./punycode";
+import { assessLinkRisk } from "./risk";
+import type { LinkRisk, RiskCode, RiskReason } from "./risk";
+import { convertOffsets } from "./offsets";
+import type { OffsetUnit } from "./offsets";
+import { createLinkifyStream } from "./stream";
+import type { LinkifyStream } from "./stream";
+import { applyEdit, relinkify } from "./incremental";
+import type { TextEdit } from "./incremental";
+import { createDetectorRegistry } from "./detectors";
+import type { BuiltInDetectorName, Detector, DetectorRegistry } from "./detectors";
+import { applyLinkPolicy } from "./policy";
+import { DEFAULT_TRACKING_PARAMETERS, canonicalizeUrl } from "./canonical";
+import type { CanonicalOptions } from "./canonical";
+import type { Candidate, CandidateFate, Explanation, Span } from "./explain";
+import { setLogError, setLogger } from "./log";
+import type { LogCode, LogEntry, Logger } from "./log";
+import type { LinkPolicy, PolicyCode, PolicyReason, PolicyResult } from "./policy";
+import type { PhoneNumberMatch, PhoneNumberMatcher } from "./phone";
+import { linkifyAsync } from "./async";
+import type { AsyncLinkifyOptions } from "./async";
+import type { AbortSignalLike, LinkLimits, LinkifyResult, StopReason } from "./limits";
 
-export { addAutoLinks, addLinks };
-export { ALL, EMAIL_ADDRESSES, WEB_URLS };
-export type { MatchFilter, TransformFilter, LinkSpec };
+export { addAutoLinks, addLinks, explainLinks, linkify, linkifyWithLimits };
+export { ALL, EMAIL_ADDRESSES, PHONE_NUMBERS, WEB_URLS };
+export { CASHTAGS, HASHTAGS, MENTIONS };
+export { DEFAULT_URL_SCHEMES };
+export { sPhoneNumberMatchFilter, sPhoneNumberTransformFilter };
+export { PHONE };
+export { builtInPhoneNumberMatcher };
+export { IANA_TLDS };
+export { toASCII, toUnicode };
+export { assessLinkRisk };
+export { convertOffsets };
+export { createLinkifyStream };
+export { applyEdit, relinkify };
+export { createDetectorRegistry };
+export { applyLinkPolicy };
+export { DEFAULT_TRACKING_PARAMETERS, canonicalizeUrl };
+export { setLogError, setLogger };
+export { linkifyAsync };
+export { isSafeHref, toHtml };
+export { findLinksInHtml, findLinksInHtmlWithLimits, linkifyHtml };
+export { findLinksInMarkdown, linkifyMarkdown };
+export { tokenize, toSegments };
+export type { AutoLinkOptions, LinkifyOptions, MatchFilter, TransformFilter, LinkSpec };
+export type { BidiControlPolicy, TldOptions, UrlScheme };
+export type { LinkRisk, RiskCode, RiskReason };
+export type { OffsetUnit };
+export type { LinkifyStream };
+export type { TextEdit };
+export type { BuiltInDetectorName, Detector, DetectorRegistry };
+export type { LinkPolicy, PolicyCode, PolicyReason, PolicyResult };
+export type { CanonicalOptions };
+export type { Candidate, CandidateFate, Explanation, Span };
+export type { LogCode, LogEntry, Logger };
+export type { PhoneNumberMatch, PhoneNumberMatcher };
+export type { AsyncLinkifyOptions };
+export type { AbortSignalLike, LinkLimits, LinkifyResult, StopReason };
+export type { LinkKind, CustomLinkSpec, EmailLinkSpec, PhoneLinkSpec, WebLinkSpec };
+export type { TagLinkSpec };
+export type { EmailParts, PhoneParts, TagParts, UrlParts };
+export type { TagKind, TagOptions };
+export type { Anchor, AnchorRenderer, HtmlOptions, HtmlLinkifyOptions };
+export type { MarkdownLinkifyOptions };
+export type { LinkSegment, Segment, TextSegment };
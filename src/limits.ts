@@ -0,0 +1,207 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LinkSpec } from "./LinkSpec";
+
+/**
+ * The part of an `AbortSignal` that is checked, so that any object with an `aborted` flag can
+ * stop the search for links.
+ */
+export interface AbortSignalLike {
+    readonly aborted: boolean;
+}
+
+/**
+ * Limits of the search for links in large texts.
+ */
+export interface LinkLimits {
+    /**
+     *  Maximum number of links, the first ones of the text being
+     *  returned when there are more. Once the detectors that ran found
+     *  more, the others are skipped, so the links they would have found
+     *  before the last one kept are missed. Each detector that runs still
+     *  searches all of the text, as a later match can come first or prune
+     *  an earlier one.
+     */
+    maxLinks?: number;
+
+    /**
+     *  Maximum length of the text searched for links, in UTF-16 code
+     *  units. What happens to longer texts depends on
+     *  <code>longInput</code>.
+     */
+    maxInputLength?: number;
+
+    /**
+     *  What to do with a text longer than <code>maxInputLength</code>:
+     *  <code>truncate</code> it, the default, leaving out a link that
+     *  reaches the end of the part kept as it may go on after it, or
+     *  <code>refuse</code> it and find no link.
+     */
+    longInput?: "truncate" | "refuse";
+
+    /**
+     *  Time in milliseconds after which the search stops, checked
+     *  between matches.
+     */
+    timeBudget?: number;
+
+    /**
+     *  Signal stopping the search when aborted, checked between matches.
+     */
+    signal?: AbortSignalLike;
+}
+
+/**
+ * Why the search for links stopped before the end of a text:
+ * - `max-links`: there are more than `maxLinks` links,
+ * - `max-input-length`: the text is longer than `maxInputLength`,
+ * - `time-budget`: the `timeBudget` ran out,
+ * - `aborted`: the `signal` was aborted.
+ */
+export type StopReason = "max-links" | "max-input-length" | "time-budget" | "aborted";
+
+/**
+ * The links of a text, found within limits.
+ */
+export interface LinkifyResult {
+    /** The links found, those found before stopping when the search stopped early */
+    links: LinkSpec[];
+    /** Why the search stopped early, when it did */
+    stopped?: StopReason;
+}
+
+/**
+ * The state of a search for links under limits.
+ *
+ * @hide
+ */
+export interface Budget {
+    /** The time the search stops at, as returned by `Date.now()` */
+    deadline?: number;
+    signal?: AbortSignalLike;
+    stopped?: StopReason;
+}
+
+function checkLimit(value: number | undefined, name: string) {
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        throw new TypeError("Invalid " + name + ": " + value);
+    }
+}
+
+/**
+ * Starts a search for links under the given limits.
+ *
+ * @throws TypeError if a maximum isn't a positive integer or the time budget a positive number
+ * @hide
+ */
+export function startBudget(limits: LinkLimits | undefined): Budget {
+    checkLimit(limits?.maxLinks, "maximum number of links");
+    checkLimit(limits?.maxInputLength, "maximum input length");
+    const timeBudget = limits?.timeBudget;
+    if (timeBudget !== undefined && !(timeBudget > 0)) {
+        throw new TypeError("Invalid time budget: " + timeBudget);
+    }
+    return {
+        deadline: timeBudget === undefined ? undefined : Date.now() + timeBudget,
+        signal: limits?.signal,
+    };
+}
+
+/**
+ * Whether the search for links must stop, recording why in the budget.
+ *
+ * @hide
+ */
+export function isExhausted(budget: Budget | undefined): boolean {
+    if (budget === undefined) {
+        return false;
+    }
+    if (budget.stopped === undefined) {
+        if (budget.signal?.aborted) {
+            budget.stopped = "aborted";
+        } else if (budget.deadline !== undefined && Date.now() >= budget.deadline) {
+            budget.stopped = "time-budget";
+        }
+    }
+    return budget.stopped !== undefined;
+}
+
+/**
+ * The time budget left, to search the parts of a text one after the other.
+ *
+ * @hide
+ */
+export function remainingTime(budget: Budget): number | undefined {
+    // At least a millisecond, as a time budget must be positive
+    return budget.deadline === undefined ? undefined : Math.max(budget.deadline - Date.now(), 1);
+}
+
+/**
+ * Cuts a text to a maximum length, without splitting a surrogate pair.
+ */
+function truncateInput(text: string, maxLength: number) {
+    const code = text.charCodeAt(maxLength - 1);
+    return text.substring(0, code >= 0xd800 && code <= 0xdbff ? maxLength - 1 : maxLength);
+}
+
+/**
+ * The part of a text to search under the maximum input length of the limits, and where it was
+ * cut if it was, or undefined when the text is refused.
+ *
+ * @hide
+ */
+export function limitInput(
+    text: string,
+    limits: LinkLimits | undefined,
+    budget: Budget,
+): { text: string; cut?: number } | undefined {
+    const maxInputLength = limits?.maxInputLength;
+    if (maxInputLength === undefined || text.length <= maxInputLength) {
+        return { text };
+    }
+    if (limits?.longInput == "refuse") {
+        budget.stopped = "max-input-length";
+        return undefined;
+    }
+    text = truncateInput(text, maxInputLength);
+    return { text, cut: text.length };
+}
+
+/**
+ * Leaves out the links reaching the cut of a truncated text, as they may go on after it.
+ *
+ * @param onDrop called with each link left out
+ * @hide
+ */
+export function dropCutLinks<T extends { end: number }>(
+    links: T[],
+    cut: number | undefined,
+    budget: Budget,
+    onDrop?: (link: T) => void,
+): T[] {
+    if (cut === undefined) {
+        return links;
+    }
+    budget.stopped ??= "max-input-length";
+    return links.filter((link) => {
+        if (link.end < cut) {
+            return true;
+        }
+        onDrop?.(link);
+        return false;
+    });
+}
@@ -15,9 +15,39 @@
  * limitations under the License.
  */
 
-import { AUTOLINK_WEB_URL, AUTOLINK_EMAIL_ADDRESS } from "./patterns";
-import { logError } from "./log";
+import {
+    AUTOLINK_EMAIL_ADDRESS,
+    AUTOLINK_WEB_URL_OPTIONS,
+    compileTlds,
+    digitsAndPlusOnly,
+} from "./patterns";
+import { type CanonicalOptions, canonicalizeUrl } from "./canonical";
+import type { Detector, DetectorRegistry } from "./detectors";
+import { type Explanation, type Trace, addCandidate, setFate, toSpan } from "./explain";
+import {
+    type Budget,
+    type LinkLimits,
+    type LinkifyResult,
+    dropCutLinks,
+    isExhausted,
+    limitInput,
+    startBudget,
+} from "./limits";
+import { type LogEntry, logError } from "./log";
 import { type LinkSpec, pruneOverlaps } from "./LinkSpec";
+import { type UrlParts, parseEmailParts, parseUrlParts } from "./parts";
+import {
+    type PhoneNumberMatcher,
+    PHONE_NUMBER_MINIMUM_DIGITS,
+    builtInPhoneNumberMatcher,
+} from "./phone";
+import { type Scanner, compileWebUrlScanner, regExpScanner } from "./scanner";
+import { type OffsetUnit, convertOffsets } from "./offsets";
+import { findUrlRange } from "./punctuation";
+import { toASCII, toUnicode } from "./punycode";
+import { assessLinkRisk } from "./risk";
+import { type TagOptions, gatherTagLinks } from "./social";
+import { IANA_TLDS } from "./tlds";
 
 /**
  *  Examines the character span matched by the pattern and determines
@@ -74,6 +104,30 @@ export const WEB_URLS = 0x01;
  */
 export const EMAIL_ADDRESSES = 0x02;
 
+/**
+ *  Bit field indicating that phone numbers should be matched in methods that
+ *  take an options mask
+ */
+export const PHONE_NUMBERS = 0x04;
+
+/**
+ *  Bit field indicating that mentions, like <code>@name</code>, should be
+ *  matched in methods that take an options mask. Not part of {@link ALL}.
+ */
+export const MENTIONS = 0x10;
+
+/**
+ *  Bit field indicating that hashtags, like <code>#topic</code>, should be
+ *  matched in methods that take an options mask. Not part of {@link ALL}.
+ */
+export const HASHTAGS = 0x20;
+
+/**
+ *  Bit field indicating that cashtags, like <code>$TICKER</code>, should be
+ *  matched in methods that take an options mask. Not part of {@link ALL}.
+ */
+export const CASHTAGS = 0x40;
+
 /**
  *  Bit mask indicating that all available patterns should be matched in
  *  methods that take an options mask
@@ -81,7 +135,228 @@ export const EMAIL_ADDRESSES = 0x02;
  *  Use {@link android.view.textclassifier.TextClassifier#generateLinks(TextLinks.Request)}
  *  instead and avoid it even when targeting API levels where no alternative is available.
  */
-export const ALL = WEB_URLS | EMAIL_ADDRESSES;
+export const ALL = WEB_URLS | EMAIL_ADDRESSES | PHONE_NUMBERS;
+
+/**
+ *  Top-level domains that web URLs without a scheme must end with. Punycode
+ *  ones (<code>xn--</code>) are always accepted, as on Android.
+ */
+export interface TldOptions {
+    /**
+     *  Replaces the IANA top-level domains, {@link IANA_TLDS}.
+     */
+    list?: readonly string[];
+
+    /**
+     *  Top-level domains to accept in addition to the list, like internal
+     *  ones such as <code>corp</code> or <code>internal</code>.
+     */
+    add?: readonly string[];
+
+    /**
+     *  Top-level domains of the list to reject.
+     */
+    remove?: readonly string[];
+}
+
+/**
+ *  A scheme of the URLs found by the web URL detector.
+ */
+export interface UrlScheme {
+    /**
+     *  Name of the scheme, like <code>https</code>, without the colon.
+     *  Matched case-insensitively.
+     */
+    name: string;
+
+    /**
+     *  Whether URLs of the scheme have an authority, <code>//</code> followed
+     *  by a host, like <code>ftp://example.com</code>. Otherwise anything
+     *  follows the colon, like in <code>magnet:?xt=...</code>.
+     *  <code>true</code> by default.
+     */
+    authority?: boolean;
+
+    /**
+     *  Whether the scheme is prepended to the URLs found without one, like
+     *  <code>http://</code> to <code>example.com</code>. The first such scheme
+     *  is used, URLs without a scheme are not searched when there is none.
+     */
+    autoPrefix?: boolean;
+}
+
+/**
+ *  The schemes of the web URLs found by Android.
+ */
+export const DEFAULT_URL_SCHEMES: readonly UrlScheme[] = [
+    { name: "http", autoPrefix: true },
+    { name: "https" },
+    { name: "rtsp" },
+];
+
+const SCHEME_NAME = /^[a-zA-Z][a-zA-Z0-9+.\-]*$/;
+
+const HOST_LABEL = /^[a-zA-Z0-9](?:[a-zA-Z0-9\-]{0,61}[a-zA-Z0-9])?$/;
+
+/**
+ *  Options of {@link addAutoLinks}, taking the place of the Android
+ *  Context that is used while identifying phone numbers.
+ */
+export interface AutoLinkOptions {
+    /**
+     *  ISO 3166-1 two-letter region of phone numbers written without an
+     *  international prefix. Android reads it from the SIM.
+     */
+    defaultRegion?: string;
+
+    /**
+     *  Recognizer used to find phone numbers, {@link builtInPhoneNumberMatcher}
+     *  by default. Plug libphonenumber here for the same results as Android.
+     */
+    phoneNumberMatcher?: PhoneNumberMatcher;
+
+    /**
+     *  Transforms the text of the phone numbers found into the number of
+     *  their tel: URL, {@link sPhoneNumberTransformFilter} by default.
+     */
+    phoneNumberTransformFilter?: TransformFilter;
+
+    /**
+     *  Top-level domains known when matching web URLs without a scheme, the
+     *  IANA ones by default.
+     */
+    tlds?: TldOptions;
+
+    /**
+     *  Schemes of the web URLs to find, {@link DEFAULT_URL_SCHEMES} by
+     *  default.
+     */
+    urlSchemes?: readonly UrlScheme[];
+
+    /**
+     *  Single-label hosts linked without a scheme when they are followed by
+     *  a port or a path, like <code>localhost:3000</code> or
+     *  <code>jenkins/job/42</code>. <code>true</code> accepts
+     *  <code>localhost</code>, an array accepts its hosts in addition to it.
+     *  None by default.
+     */
+    intranetHosts?: true | readonly string[];
+
+    /**
+     *  What to do when the text contains bidi embedding, override or isolate
+     *  controls (U+202A to U+202E, U+2066 to U+2069): <code>reject</code>
+     *  finds no link at all, the default, <code>strip</code> ignores them
+     *  while matching, and <code>exclude</code> drops the links that contain
+     *  one or are right next to one.
+     */
+    bidiControls?: BidiControlPolicy;
+
+    /**
+     *  How mentions are found and linked, required with {@link MENTIONS}
+     *  for the URL of the links.
+     */
+    mentions?: TagOptions;
+
+    /**
+     *  How hashtags are found and linked, required with {@link HASHTAGS}
+     *  for the URL of the links.
+     */
+    hashtags?: TagOptions;
+
+    /**
+     *  How cashtags are found and linked, required with {@link CASHTAGS}
+     *  for the URL of the links.
+     */
+    cashtags?: TagOptions;
+}
+
+/**
+ *  Policy for the bidi controls of a text, see
+ *  {@link AutoLinkOptions.bidiControls}.
+ */
+export type BidiControlPolicy = "reject" | "strip" | "exclude";
+
+/**
+ *  The prefixes of the URLs of the schemes, like <code>http://</code> or
+ *  <code>magnet:</code>, the one to prepend to URLs without a scheme first.
+ */
+function urlSchemePrefixes(schemes: readonly UrlScheme[]) {
+    const prefixes = schemes.map(
+        (scheme) => scheme.name.toLowerCase() + ((scheme.authority ?? true) ? "://" : ":"),
+    );
+    const autoPrefix = schemes.findIndex((scheme) => scheme.autoPrefix);
+    if (autoPrefix > 0) {
+        prefixes.unshift(...prefixes.splice(autoPrefix, 1));
+    }
+    return prefixes;
+}
+
+/**
+ *  How many web URL patterns built for custom top-level domains are kept.
+ */
+const WEB_URL_CACHE_SIZE = 16;
+
+const webUrlCache = new Map<string, Scanner>();
+
+const AUTOLINK_WEB_URL_SCANNER = compileWebUrlScanner(AUTOLINK_WEB_URL_OPTIONS);
+
+function normalizeTld(tld: string) {
+    return tld.toLowerCase().replace(/^\./, "");
+}
+
+/**
+ *  The scanner matching web URLs with the given top-level domains and
+ *  schemes. Scanners are cached as compiling them is costly.
+ */
+function webUrlScanner(options: AutoLinkOptions | undefined): Scanner {
+    const tlds = options?.tlds;
+    const schemes = options?.urlSchemes;
+    if (tlds === undefined && schemes === undefined && options?.intranetHosts === undefined) {
+        return AUTOLINK_WEB_URL_SCANNER;
+    }
+
+    for (const scheme of schemes ?? []) {
+        if (!SCHEME_NAME.test(scheme.name)) {
+            throw new TypeError("Invalid URL scheme: " + JSON.stringify(scheme.name));
+        }
+    }
+    const intranetHosts =
+        options?.intranetHosts === undefined
+            ? []
+            : ["localhost", ...(options.intranetHosts === true ? [] : options.intranetHosts)];
+    for (const host of intranetHosts) {
+        if (!HOST_LABEL.test(host)) {
+            throw new TypeError("Invalid intranet host: " + JSON.stringify(host));
+        }
+    }
+    const list = tlds?.list?.map(normalizeTld);
+    const add = (tlds?.add ?? []).map(normalizeTld);
+    const remove = (tlds?.remove ?? []).map(normalizeTld);
+    const key = JSON.stringify([list ?? null, add, remove, schemes ?? null, intranetHosts]);
+    let scanner = webUrlCache.get(key);
+    if (scanner === undefined) {
+        const set = new Set([...(list ?? IANA_TLDS), ...add]);
+        set.delete("");
+        for (const tld of remove) {
+            set.delete(tld);
+        }
+        const urlSchemes = schemes ?? DEFAULT_URL_SCHEMES;
+        scanner = compileWebUrlScanner({
+            topLevelDomains: compileTlds(set),
+            schemes: urlSchemes.filter((s) => s.authority ?? true).map((s) => s.name),
+            opaqueSchemes: urlSchemes.filter((s) => !(s.authority ?? true)).map((s) => s.name),
+            withoutScheme: urlSchemes.some((s) => s.autoPrefix),
+            intranetHosts,
+        });
+        if (webUrlCache.size >= WEB_URL_CACHE_SIZE) {
+            webUrlCache.delete(webUrlCache.keys().next().value!);
+        }
+    }
+    // Most recently used last
+    webUrlCache.delete(key);
+    webUrlCache.set(key, scanner);
+    return scanner;
+}
 
 /**
  *  Filters out web URL matches that occur after an at-sign (@).  This is
@@ -97,6 +372,350 @@ const sUrlMatchFilter: MatchFilter = (s, start, end) => {
     return true;
 };
 
+/**
+ *  Filters out URL matches that don't have enough digits to be a
+ *  phone number.
+ */
+export const sPhoneNumberMatchFilter: MatchFilter = (s, start, end) => {
+    let digitCount = 0;
+
+    for (let i = start; i < end; i++) {
+        const c = s.charAt(i);
+        if (c >= "0" && c <= "9") {
+            digitCount++;
+            if (digitCount >= PHONE_NUMBER_MINIMUM_DIGITS) {
+                return true;
+            }
+        }
+    }
+    return false;
+};
+
+/**
+ *  Transforms matched phone number text into something suitable
+ *  to be used in a tel: URL.  It does this by removing everything
+ *  but the digits and plus signs.  For instance:
+ *  &apos;+1 (919) 555-1212&apos;
+ *  becomes &apos;+19195551212&apos;
+ */
+export const sPhoneNumberTransformFilter: TransformFilter = (match) => {
+    return digitsAndPlusOnly(match[0]);
+};
+
+/**
+ *  Options of {@link linkify}.
+ */
+export interface LinkifyOptions extends AutoLinkOptions, LinkLimits {
+    /**
+     *  Mask of the built-in detectors to run, {@link ALL} by default.
+     */
+    mask?: number;
+
+    /**
+     *  Custom pattern whose matches are reported as links of the
+     *  <code>custom</code> kind. It doesn't need the <code>g</code> flag, the
+     *  <code>y</code> flag is ignored and its <code>lastIndex</code> is
+     *  neither used nor modified.
+     */
+    pattern?: RegExp;
+
+    /**
+     *  Schemes (eg <code>http://</code>) of the custom pattern. The first one
+     *  is prepended to the matches that don't start with any of them.
+     */
+    schemes?: string[];
+
+    /**
+     *  Filter allowing additional control over which matches of the custom
+     *  pattern are converted into links.
+     */
+    matchFilter?: MatchFilter;
+
+    /**
+     *  Filter allowing to update the links found by the custom pattern.
+     */
+    transformFilter?: TransformFilter;
+
+    /**
+     *  What to do with links that overlap: <code>prune</code> keeps only the
+     *  longest of them, the default, while <code>keep</code> reports all of
+     *  them.
+     */
+    overlaps?: "prune" | "keep";
+
+    /**
+     *  Whether to trim the sentence punctuation that ends web URLs, and the
+     *  closing brackets and quotes that aren't balanced inside of them.
+     *  <code>true</code> by default, {@link addAutoLinks} turns it off to
+     *  match Android.
+     */
+    trimPunctuation?: boolean;
+
+    /**
+     *  Whether the hosts of web URLs and the domains of email addresses are
+     *  converted to ASCII with Punycode in <code>url</code>, while their
+     *  <code>display</code> form has its <code>xn--</code> labels decoded.
+     *  <code>false</code> by default.
+     */
+    idn?: boolean;
+
+    /**
+     *  Whether links other than phone numbers get a <code>risk</code>
+     *  assessment, see {@link assessLinkRisk}. <code>false</code> by default.
+     */
+    risk?: boolean;
+
+    /**
+     *  Whether web links get a <code>canonicalUrl</code>, and how it's
+     *  built, see {@link canonicalizeUrl}. <code>false</code> by default.
+     */
+    canonical?: boolean | CanonicalOptions;
+
+    /**
+     *  Unit of the <code>start</code> and <code>end</code> of the links,
+     *  <code>utf16</code> by default, see {@link convertOffsets}.
+     */
+    offsetUnit?: OffsetUnit;
+
+    /**
+     *  Detectors to run instead of the ones of <code>mask</code>: the
+     *  built-in ones it enables and its custom ones, whose priorities are
+     *  used when pruning overlaps, see {@link createDetectorRegistry}.
+     */
+    registry?: DetectorRegistry;
+}
+
+/**
+ *  Finds the links in a text.
+ *
+ *  This is the entry point behind {@link addAutoLinks} and {@link addLinks},
+ *  it always returns an array, empty when nothing is found.
+ *
+ *  @param text     the text to search for links
+ *  @param options  which links to search for and how
+ *  @return the links found, ordered by position when overlaps are pruned
+ */
+export function linkify(text: string, options?: LinkifyOptions): LinkSpec[] {
+    return traceLinks(text, options, undefined, startBudget(options));
+}
+
+/**
+ *  Finds the links in a text as {@link linkify} does, telling whether the
+ *  search stopped early because of one of the limits of the options.
+ *
+ *  @param text     the text to search for links
+ *  @param options  which links to search for, how and within which limits
+ *  @return the links found and why the search stopped early, if it did
+ *  @throws TypeError if a limit is invalid
+ */
+export function linkifyWithLimits(text: string, options?: LinkifyOptions): LinkifyResult {
+    const budget = startBudget(options);
+    const links = traceLinks(text, options, undefined, budget);
+    return budget.stopped === undefined ? { links } : { links, stopped: budget.stopped };
+}
+
+/**
+ *  Finds the links in a text as {@link linkify} does, and reports every
+ *  match of the detectors with what became of it, to understand why some
+ *  text was or wasn't linked.
+ *
+ *  The ranges of the candidates are in UTF-16 code units, whatever the
+ *  <code>offsetUnit</code> option.
+ *
+ *  @param text     the text to search for links
+ *  @param options  which links to search for and how
+ *  @return the links and the candidates
+ */
+export function explainLinks(text: string, options?: LinkifyOptions): Explanation {
+    const trace: Trace = { candidates: [], byLink: new Map() };
+    const budget = startBudget(options);
+    const links = traceLinks(text, options, trace, budget);
+    const explanation: Explanation = {
+        links,
+        candidates: trace.candidates.sort((a, b) => a.start - b.start),
+    };
+    if (trace.rejected !== undefined) {
+        explanation.rejected = trace.rejected;
+    }
+    if (budget.stopped !== undefined) {
+        explanation.stopped = budget.stopped;
+    }
+    return explanation;
+}
+
+function traceLinks(
+    text: string,
+    options: LinkifyOptions | undefined,
+    trace: Trace | undefined,
+    budget: Budget,
+): LinkSpec[] {
+    const limited = limitInput(text, options, budget);
+    if (limited === undefined) {
+        return [];
+    }
+    text = limited.text;
+
+    const registry = options?.registry;
+    const mask = registry?.mask ?? options?.mask ?? ALL;
+    const bidiControls = options?.bidiControls ?? "reject";
+    if (bidiControls == "reject") {
+        const rejected = findUnsupportedCharacter(text);
+        if (rejected !== undefined) {
+            if (trace !== undefined) {
+                trace.rejected = rejected;
+            }
+            return [];
+        }
+    }
+
+    // Stripped controls are matched over, then the ranges are mapped back to the text
+    const input = text;
+    let offsets: number[] | undefined;
+    if (bidiControls == "strip") {
+        ({ text, offsets } = stripBidiControls(input));
+    }
+
+    let links: LinkSpec[] = [];
+    const maxLinks = options?.maxLinks;
+    // Once there are more links than kept, the detectors that didn't run yet are skipped
+    const isCapped = () => {
+        if (maxLinks === undefined || links.length <= maxLinks) {
+            return false;
+        }
+        budget.stopped ??= "max-links";
+        return true;
+    };
+    gatherWebAndEmailLinks(links, text, mask, options, trace, budget);
+    if ((mask & PHONE_NUMBERS) != 0 && !isCapped()) {
+        gatherTelLinks(
+            links,
+            text,
+            options?.defaultRegion,
+            options?.phoneNumberMatcher ?? builtInPhoneNumberMatcher,
+            options?.phoneNumberTransformFilter ?? sPhoneNumberTransformFilter,
+            trace,
+            budget,
+        );
+    }
+    if ((mask & (MENTIONS | HASHTAGS | CASHTAGS)) != 0 && !isCapped()) {
+        // Tags are never part of a web URL or an email address, even when they aren't searched
+        const excluded = links.filter((link) => link.kind == "web" || link.kind == "email");
+        gatherWebAndEmailLinks(excluded, text, ~mask, options, undefined, budget);
+        excluded.sort((a, b) => a.start - b.start);
+        for (const [bit, kind, tagOptions] of [
+            [MENTIONS, "mention", options?.mentions],
+            [HASHTAGS, "hashtag", options?.hashtags],
+            [CASHTAGS, "cashtag", options?.cashtags],
+        ] as const) {
+            if ((mask & bit) != 0 && !isCapped()) {
+                gatherTagLinks(links, text, kind, tagOptions, excluded, trace, budget);
+            }
+        }
+    }
+    if (options?.pattern !== undefined && !isCapped()) {
+        gatherLinks(
+            links,
+            text,
+            "custom",
+            regExpScanner(options.pattern),
+            (options.schemes ?? []).map((scheme) => scheme.toLowerCase()),
+            options.matchFilter,
+            options.transformFilter,
+            false,
+            trace,
+            budget,
+        );
+    }
+    for (const detector of registry?.detectors ?? []) {
+        if (isCapped()) {
+            break;
+        }
+        gatherDetectorLinks(links, text, detector, trace, budget);
+    }
+    if (offsets !== undefined) {
+        const map = (range: { start: number; end: number }) => {
+            range.start = offsets[range.start];
+            range.end = offsets[range.end - 1] + 1;
+        };
+        for (const link of links) {
+            map(link);
+            link.text = input.substring(link.start, link.end);
+        }
+        for (const candidate of trace?.candidates ?? []) {
+            map(candidate);
+            candidate.text = input.substring(candidate.start, candidate.end);
+            if (candidate.trimmed !== undefined) {
+                map(candidate.trimmed);
+            }
+            if (candidate.by !== undefined) {
+                map(candidate.by);
+            }
+        }
+    }
+    links = dropCutLinks(links, limited.cut, budget, (link) => setFate(trace, link, "truncated"));
+    if (bidiControls == "exclude") {
+        links = links.filter((link) => {
+            // A control right before or after a link can reorder it as well as one inside
+            const around = text.charAt(link.start - 1) + link.text + text.charAt(link.end);
+            if (!BIDI_CONTROL.test(around)) {
+                return true;
+            }
+            setFate(trace, link, "bidi-control");
+            return false;
+        });
+    }
+    if ((options?.overlaps ?? "prune") == "prune") {
+        pruneOverlaps(
+            links,
+            registry && ((link) => registry.priorityOf(link)),
+            trace &&
+                ((removed, by) => {
+                    const candidate = trace.byLink.get(removed);
+                    if (candidate !== undefined) {
+                        candidate.fate = "overlap";
+                        candidate.by = toSpan(by);
+                    }
+                }),
+        );
+    }
+    // A detector searches all of the text, as a later match can come first or prune an earlier one
+    if (maxLinks !== undefined && links.length > maxLinks) {
+        if (options?.overlaps == "keep") {
+            links.sort((a, b) => a.start - b.start);
+        }
+        for (const link of links.slice(maxLinks)) {
+            setFate(trace, link, "max-links");
+        }
+        links = links.slice(0, maxLinks);
+        budget.stopped ??= "max-links";
+    }
+    if (options?.idn) {
+        for (let i = 0; i < links.length; i++) {
+            links[i] = withIdnForms(links[i]);
+        }
+    }
+    if (options?.canonical) {
+        const canonicalOptions = options.canonical === true ? undefined : options.canonical;
+        for (const link of links) {
+            if (link.kind == "web") {
+                link.canonicalUrl = canonicalizeUrl(link.url, canonicalOptions);
+            }
+        }
+    }
+    if (options?.risk) {
+        for (const link of links) {
+            if (link.kind != "phone") {
+                link.risk = assessLinkRisk(link.url, link.display ?? link.text);
+            }
+        }
+    }
+    if (options?.offsetUnit !== undefined && options.offsetUnit != "utf16") {
+        links = convertOffsets(input, links, options.offsetUnit);
+    }
+
+    return links;
+}
+
 /**
  *  Scans the text of the provided Spannable and turns all occurrences of the link types
  *  indicated in the mask into clickable links. If the mask is nonzero, it also removes any
@@ -105,63 +724,88 @@ const sUrlMatchFilter: MatchFilter = (s, start, end) => {
  *
  * @param text Spannable whose text is to be marked-up with links
  * @param mask mask to define which kinds of links will be searched
- * @param context Context to be used while identifying phone numbers
- * @param urlSpanFactory function used to create {@link URLSpan}s
+ * @param options options used while identifying phone numbers
  * @return true if at least one link is found and applied.
  */
-export function addAutoLinks(text: string, mask?: number): LinkSpec[] | false {
-    if (mask === undefined) {
-        mask = ALL;
-    }
-    if (text != null && containsUnsupportedCharacters(text.toString())) {
-        return false;
-    }
+export function addAutoLinks(
+    text: string,
+    mask?: number,
+    options?: AutoLinkOptions,
+): LinkSpec[] | false {
     if (mask == 0) {
         return false;
     }
 
-    const links: LinkSpec[] = [];
-    if ((mask & WEB_URLS) != 0) {
-        gatherLinks(
-            links,
-            text,
-            AUTOLINK_WEB_URL,
-            ["http://", "https://", "rtsp://"],
-            sUrlMatchFilter,
-            undefined,
-        );
-    }
-    if ((mask & EMAIL_ADDRESSES) != 0) {
-        gatherLinks(links, text, AUTOLINK_EMAIL_ADDRESS, ["mailto:"], undefined, undefined);
-    }
-    pruneOverlaps(links);
+    const links = linkify(text, { ...options, mask: mask ?? ALL, trimPunctuation: false });
     if (links.length == 0) {
         return false;
     }
 
     return links;
 }
+
 /**
- * Returns true if the specified text contains at least one unsupported character for applying
- * links. Also logs the error.
+ *  The bidi embedding, override and isolate controls.
+ */
+const BIDI_CONTROLS = [
+    "\u202A",
+    "\u202B",
+    "\u202C",
+    "\u202D",
+    "\u202E",
+    "\u2066",
+    "\u2067",
+    "\u2068",
+    "\u2069",
+];
+
+/**
+ *  A bidi embedding, override or isolate control.
+ *
+ *  @hide
+ */
+export const BIDI_CONTROL = /[\u202A-\u202E\u2066-\u2069]/;
+
+/**
+ * Returns the error of the first unsupported character for applying links in the specified text,
+ * if there is one. Also logs the error.
+ *
+ * Android only rejects U+202C, U+202D and U+202E, the other bidi controls are rejected too.
  *
  * @param text the text to apply links to
  * @hide
  */
-function containsUnsupportedCharacters(text: string) {
-    if (text.indexOf("\u202C") !== -1) {
-        logError("Unsupported character for applying links: u202C");
-        return true;
-    }
-    if (text.indexOf("\u202D") !== -1) {
-        logError("Unsupported character for applying links: u202D");
-        return true;
+function findUnsupportedCharacter(text: string): LogEntry | undefined {
+    for (const control of BIDI_CONTROLS) {
+        if (text.indexOf(control) !== -1) {
+            const code = control.charCodeAt(0).toString(16).toUpperCase();
+            const entry: LogEntry = {
+                code: "unsupported-character",
+                detail: "U+" + code,
+                message: "Unsupported character for applying links: u" + code,
+            };
+            logError(entry);
+            return entry;
+        }
     }
-    if (text.indexOf("\u202E") !== -1) {
-        logError("Unsupported character for applying links: u202E");
-        return true;
+    return undefined;
+}
+
+/**
+ *  Removes the bidi controls of a text. <code>offsets</code> holds the index
+ *  in the original text of each character of the stripped one.
+ */
+function stripBidiControls(text: string) {
+    let stripped = "";
+    const offsets: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const c = text.charAt(i);
+        if (!BIDI_CONTROL.test(c)) {
+            stripped += c;
+            offsets.push(i);
+        }
     }
-    return false;
+    return { text: stripped, offsets };
 }
 
 /**
@@ -178,7 +822,6 @@ function containsUnsupportedCharacters(text: string) {
  * @param matchFilter     the filter that is used to allow the client code additional control
  *                        over which pattern matches are to be converted into links.
  * @param transformFilter filter to allow the client code to update the link found.
- * @param urlSpanFactory  function used to create {@link URLSpan}s
  *
  * @return True if at least one link is found and applied.
  */
@@ -188,39 +831,59 @@ export function addLinks(
     defaultScheme: string | undefined,
     schemes: string[] | undefined,
     matchFilter: MatchFilter | undefined,
-    transformFilter: TransformFilter,
-) {
-    if (spannable != null && containsUnsupportedCharacters(spannable.toString())) {
+    transformFilter: TransformFilter | undefined,
+): LinkSpec[] | false {
+    const links = linkify(spannable, {
+        mask: 0,
+        pattern,
+        schemes: [defaultScheme ?? "", ...(schemes ?? [])],
+        matchFilter,
+        transformFilter,
+        overlaps: "keep",
+    });
+    if (links.length == 0) {
         return false;
     }
 
-    let schemesCopy: string[];
-    if (defaultScheme == null) defaultScheme = "";
-    if (schemes == null || schemes.length < 1) {
-        schemes = [];
-    }
-    schemesCopy = [];
-    schemesCopy.push(defaultScheme.toLowerCase());
-    for (const scheme of schemes) {
-        schemesCopy.push(scheme == undefined ? "" : scheme.toLowerCase());
-    }
+    return links;
+}
 
-    let links: LinkSpec[] = [];
-    let m: RegExpExecArray | null;
-    while ((m = pattern.exec(spannable)) != null) {
-        const start = m.index;
-        const end = m.index + m[0].length;
-        let allowed = true;
-        if (matchFilter != null) {
-            allowed = matchFilter(spannable, start, end);
-        }
-        if (allowed) {
-            const url = makeUrl(m[0], schemesCopy, m, transformFilter);
-            links.push({ url, start, end });
-        }
+function gatherWebAndEmailLinks(
+    links: LinkSpec[],
+    text: string,
+    mask: number,
+    options: LinkifyOptions | undefined,
+    trace: Trace | undefined,
+    budget: Budget | undefined,
+) {
+    if ((mask & WEB_URLS) != 0) {
+        gatherLinks(
+            links,
+            text,
+            "web",
+            webUrlScanner(options),
+            urlSchemePrefixes(options?.urlSchemes ?? DEFAULT_URL_SCHEMES),
+            sUrlMatchFilter,
+            undefined,
+            options?.trimPunctuation ?? true,
+            trace,
+            budget,
+        );
+    }
+    if ((mask & EMAIL_ADDRESSES) != 0) {
+        gatherLinks(
+            links,
+            text,
+            "email",
+            regExpScanner(AUTOLINK_EMAIL_ADDRESS),
+            ["mailto:"],
+            undefined,
+            undefined,
+            false,
+            trace,
+            budget,
+        );
     }
-
-    return links;
 }
 
 function makeUrl(
@@ -252,29 +915,237 @@ function makeUrl(
         }
     }
 
-    if (!hasPrefix && prefixes.length > 0) {
+    const schemeAdded = !hasPrefix && prefixes.length > 0;
+    if (schemeAdded) {
         url = prefixes[0] + url;
     }
 
-    return url;
+    return { url, schemeAdded };
 }
 
 function gatherLinks(
     links: LinkSpec[],
     s: string,
-    pattern: RegExp,
+    kind: "web" | "email" | "custom",
+    scanner: Scanner,
     schemes: string[],
     matchFilter: MatchFilter | undefined,
     transformFilter: TransformFilter | undefined,
+    trimPunctuation: boolean,
+    trace: Trace | undefined,
+    budget: Budget | undefined,
+    detector?: string,
 ) {
+    const next = scanner(s);
+    let from = 0;
     let m: RegExpExecArray | null;
-    while ((m = pattern.exec(s)) != null) {
-        const start = m.index;
-        const end = start + m[0].length;
+    while (!isExhausted(budget) && (m = next(from)) != null) {
+        let start = m.index;
+        let end = start + m[0].length;
+        from = end;
+        if (start == end) {
+            // An empty match can't be a link and would match again at the same index forever
+            from++;
+            continue;
+        }
+        const candidate =
+            detector === undefined
+                ? { kind, start, end, text: m[0] }
+                : { kind, start, end, text: m[0], detector };
         if (matchFilter === undefined || matchFilter(s, start, end)) {
-            const url = makeUrl(m[0], schemes, m, transformFilter);
-            const spec: LinkSpec = { url, start, end };
-            links.push(spec);
+            if (trimPunctuation) {
+                [start, end] = findUrlRange(s, start, end, schemes);
+                from = Math.max(from, end);
+            }
+            const text = s.substring(start, end);
+            const { url, schemeAdded } = makeUrl(text, schemes, m, transformFilter);
+            const link = makeLinkSpec(kind, url, start, end, text, schemeAdded, detector);
+            links.push(link);
+            const trimmed = start != candidate.start || end != candidate.end;
+            addCandidate(
+                trace,
+                trimmed ? { ...candidate, trimmed: { start, end } } : candidate,
+                link,
+            );
+        } else {
+            // The only built-in filter is the one of web URLs
+            const fate = kind == "web" ? "url-filter" : "match-filter";
+            addCandidate(trace, candidate, undefined, fate);
+        }
+    }
+}
+
+function gatherDetectorLinks(
+    links: LinkSpec[],
+    s: string,
+    detector: Detector,
+    trace: Trace | undefined,
+    budget: Budget | undefined,
+) {
+    const schemes = (detector.schemes ?? []).map((scheme) => scheme.toLowerCase());
+    if (detector.pattern !== undefined) {
+        gatherLinks(
+            links,
+            s,
+            "custom",
+            regExpScanner(detector.pattern),
+            schemes,
+            detector.matchFilter,
+            detector.transformFilter,
+            false,
+            trace,
+            budget,
+            detector.name,
+        );
+        return;
+    }
+    for (const { start, end } of detector.scan!(s)) {
+        if (isExhausted(budget)) {
+            break;
+        }
+        if (start < 0 || end > s.length || start >= end) {
+            continue;
+        }
+        const text = s.substring(start, end);
+        const candidate = { kind: "custom" as const, start, end, text, detector: detector.name };
+        if (detector.matchFilter !== undefined && !detector.matchFilter(s, start, end)) {
+            addCandidate(trace, candidate, undefined, "match-filter");
+            continue;
+        }
+        const match: RegExpExecArray = Object.assign([text] as [string], {
+            index: start,
+            input: s,
+            groups: undefined,
+        });
+        const { url, schemeAdded } = makeUrl(text, schemes, match, detector.transformFilter);
+        const link = makeLinkSpec("custom", url, start, end, text, schemeAdded, detector.name);
+        links.push(link);
+        addCandidate(trace, candidate, link);
+    }
+}
+
+function makeLinkSpec(
+    kind: "web" | "email" | "custom",
+    url: string,
+    start: number,
+    end: number,
+    text: string,
+    schemeAdded: boolean,
+    detector?: string,
+): LinkSpec {
+    switch (kind) {
+        case "web":
+            return { kind, url, start, end, text, schemeAdded, parts: webParts(url) };
+        case "email":
+            return { kind, url, start, end, text, schemeAdded, parts: parseEmailParts(text) };
+        case "custom":
+            return detector === undefined
+                ? { kind, url, start, end, text, schemeAdded }
+                : { kind, url, start, end, text, schemeAdded, detector };
+    }
+}
+
+function gatherTelLinks(
+    links: LinkSpec[],
+    s: string,
+    defaultRegion: string | undefined,
+    matcher: PhoneNumberMatcher,
+    transformFilter: TransformFilter,
+    trace: Trace | undefined,
+    budget: Budget | undefined,
+) {
+    for (const match of matcher(s, defaultRegion)) {
+        if (isExhausted(budget)) {
+            break;
+        }
+        const { start, end } = match;
+        const text = s.substring(start, end);
+        const number = transformFilter(
+            Object.assign([text] as [string], { index: start, input: s, groups: undefined }),
+            text,
+        );
+        const url = "tel:" + number;
+        const spec: LinkSpec = {
+            kind: "phone",
+            url,
+            start,
+            end,
+            text,
+            schemeAdded: true,
+            parts: { number },
+        };
+        links.push(spec);
+        addCandidate(trace, { kind: "phone", start, end, text }, spec);
+    }
+}
+
+/**
+ *  The start of a URL up to the end of its host, the scheme and user info
+ *  being optional.
+ */
+const URL_HOST = /^((?:[a-zA-Z][a-zA-Z0-9+.\-]*:\/\/(?:[^@/?#]*@)?)?)([^:/?#\[\]]*)/;
+
+function mapUrlHost(url: string, map: (host: string) => string) {
+    const m = URL_HOST.exec(url)!;
+    return m[1] + map(m[2]) + url.substring(m[0].length);
+}
+
+function hostToASCII(host: string) {
+    if (/^[\u0000-\u007F]*$/.test(host)) {
+        return host;
+    }
+    try {
+        return toASCII(host);
+    } catch {
+        // Left alone, as browsers would fail on it the same way
+        logError({
+            code: "invalid-host",
+            detail: host,
+            message: "Invalid host, left as is: " + host,
+        });
+        return host;
+    }
+}
+
+/**
+ *  Converts the host of a web or email link to ASCII in its URL, and decodes
+ *  it for its display form.
+ */
+function withIdnForms(link: LinkSpec): LinkSpec {
+    switch (link.kind) {
+        case "web": {
+            const url = mapUrlHost(link.url, hostToASCII);
+            const display = mapUrlHost(link.text, toUnicode);
+            return { ...link, url, parts: webParts(url), display };
         }
+        case "email": {
+            const urlAt = link.url.lastIndexOf("@");
+            const textAt = link.text.lastIndexOf("@");
+            const url =
+                link.url.substring(0, urlAt + 1) + hostToASCII(link.url.substring(urlAt + 1));
+            const display =
+                link.text.substring(0, textAt + 1) + toUnicode(link.text.substring(textAt + 1));
+            return { ...link, url, display };
+        }
+        default:
+            return link;
     }
 }
+
+/**
+ * Web URLs always get one of the schemes of the pattern, so the fallback is only there for the
+ * type checker.
+ */
+function webParts(url: string): UrlParts {
+    return (
+        parseUrlParts(url) ?? {
+            scheme: "",
+            userInfo: undefined,
+            host: "",
+            port: undefined,
+            path: url,
+            query: undefined,
+            fragment: undefined,
+        }
+    );
+}
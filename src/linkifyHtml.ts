@@ -0,0 +1,341 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type HtmlOptions, renderLink } from "./html";
+import {
+    type LinkifyResult,
+    dropCutLinks,
+    isExhausted,
+    limitInput,
+    remainingTime,
+    startBudget,
+} from "./limits";
+import { type LinkifyOptions, linkifyWithLimits } from "./linkify";
+import type { LinkSpec } from "./LinkSpec";
+import { convertOffsets } from "./offsets";
+import { toSegments } from "./tokenize";
+
+export interface HtmlLinkifyOptions extends LinkifyOptions, HtmlOptions {
+    /**
+     * Elements whose content is left alone, in addition to `a`, `code`, `pre`, `script`, `style`,
+     * `textarea` and `title`.
+     */
+    skipTags?: string[];
+}
+
+/**
+ * Elements whose text is never linked.
+ */
+const SKIPPED_TAGS = ["a", "code", "pre", "script", "style", "textarea", "title"];
+
+/**
+ * Elements whose content is text up to their end tag, even if it looks like markup.
+ */
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+
+/**
+ * Elements that have no end tag.
+ */
+const VOID_TAGS = new Set(
+    "area base br col embed hr img input link meta param source track wbr".split(" "),
+);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: "\u00A0",
+};
+
+const ENTITY = /&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([a-zA-Z][a-zA-Z0-9]*));?/y;
+
+/**
+ * A text node of the HTML source, with its entities decoded.
+ */
+interface TextNode {
+    /** The decoded text */
+    text: string;
+    /** For each index of `text` and its length, the matching index in the source */
+    sourceIndex: number[];
+}
+
+function decodeEntity(m: RegExpExecArray): string | undefined {
+    if (m[3] !== undefined) {
+        return m[0].endsWith(";") ? NAMED_ENTITIES[m[3]] : undefined;
+    }
+    const codePoint = m[1] !== undefined ? parseInt(m[1], 10) : parseInt(m[2], 16);
+    if (codePoint == 0 || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+        return "\uFFFD";
+    }
+    return String.fromCodePoint(codePoint);
+}
+
+function decodeText(html: string, start: number, end: number): TextNode {
+    let text = "";
+    const sourceIndex: number[] = [];
+    let i = start;
+    while (i < end) {
+        if (html.charAt(i) == "&") {
+            ENTITY.lastIndex = i;
+            const m = ENTITY.exec(html);
+            const decoded = m != null && i + m[0].length <= end ? decodeEntity(m) : undefined;
+            if (m != null && decoded !== undefined) {
+                for (let j = 0; j < decoded.length; j++) {
+                    sourceIndex.push(i);
+                }
+                text += decoded;
+                i += m[0].length;
+                continue;
+            }
+        }
+        sourceIndex.push(i);
+        text += html.charAt(i);
+        i++;
+    }
+    sourceIndex.push(end);
+    return { text, sourceIndex };
+}
+
+/**
+ * Index of the `>` ending the tag starting at `start`, ignoring the ones in quoted attribute
+ * values, or the length of the source if it's never closed.
+ */
+function findTagEnd(html: string, start: number) {
+    let quote: string | undefined;
+    for (let i = start; i < html.length; i++) {
+        const c = html.charAt(i);
+        if (quote !== undefined) {
+            if (c == quote) {
+                quote = undefined;
+            }
+        } else if (c == '"' || c == "'") {
+            quote = c;
+        } else if (c == ">") {
+            return i;
+        }
+    }
+    return html.length;
+}
+
+function findRawTextEnd(html: string, start: number, tag: string) {
+    const pattern = new RegExp("</" + tag + "[\\s/>]", "gi");
+    pattern.lastIndex = start;
+    const m = pattern.exec(html);
+    return m == null ? html.length : m.index;
+}
+
+/**
+ * Calls `onText` with the ranges of the source that are text outside of skipped elements.
+ */
+function scanHtml(
+    html: string,
+    skipTags: Set<string>,
+    onText: (start: number, end: number) => void,
+) {
+    const skipped: string[] = [];
+    let textStart = 0;
+    let i = 0;
+    while (i < html.length) {
+        const lt = html.indexOf("<", i);
+        if (lt == -1) {
+            break;
+        }
+
+        const next = html.charAt(lt + 1);
+        const isTag =
+            /[a-zA-Z]/.test(next) || (next == "/" && /[a-zA-Z]/.test(html.charAt(lt + 2)));
+        if (!isTag && next != "!" && next != "?") {
+            i = lt + 1;
+            continue;
+        }
+        if (skipped.length == 0 && textStart < lt) {
+            onText(textStart, lt);
+        }
+
+        let end: number;
+        if (html.startsWith("<!--", lt)) {
+            const close = html.indexOf("-->", lt + 4);
+            end = close == -1 ? html.length : close + 3;
+        } else if (next == "!" || next == "?") {
+            const close = html.indexOf(">", lt);
+            end = close == -1 ? html.length : close + 1;
+        } else {
+            const closing = next == "/";
+            const nameMatch = /[a-zA-Z][^\s/>]*/y;
+            nameMatch.lastIndex = closing ? lt + 2 : lt + 1;
+            const name = nameMatch.exec(html)![0].toLowerCase();
+            const close = findTagEnd(html, nameMatch.lastIndex);
+            end = Math.min(close + 1, html.length);
+            const selfClosing = html.charAt(close - 1) == "/";
+
+            if (closing) {
+                const open = skipped.lastIndexOf(name);
+                if (open != -1) {
+                    skipped.length = open;
+                }
+            } else if (RAW_TEXT_TAGS.has(name)) {
+                const rawEnd = findRawTextEnd(html, end, name);
+                end = Math.min(findTagEnd(html, rawEnd) + 1, html.length);
+            } else if (skipTags.has(name) && !selfClosing && !VOID_TAGS.has(name)) {
+                skipped.push(name);
+            }
+        }
+
+        textStart = end;
+        i = end;
+    }
+    if (skipped.length == 0 && textStart < html.length) {
+        onText(textStart, html.length);
+    }
+}
+
+/**
+ * Searches the text nodes of the HTML source for links, the limits of the options applying to the
+ * whole source: its length is the input length, and the links of all the nodes count together.
+ *
+ * @return why the search stopped early, if it did
+ */
+function findLinksInNodes(
+    html: string,
+    options: HtmlLinkifyOptions | undefined,
+    onNode: (node: TextNode, links: LinkSpec[]) => void,
+) {
+    const budget = startBudget(options);
+    const limited = limitInput(html, options, budget);
+    if (limited === undefined) {
+        return budget.stopped;
+    }
+    const skipTags = new Set(SKIPPED_TAGS);
+    for (const tag of options?.skipTags ?? []) {
+        skipTags.add(tag.toLowerCase());
+    }
+    const maxLinks = options?.maxLinks;
+    let count = 0;
+    scanHtml(limited.text, skipTags, (start, end) => {
+        if (isExhausted(budget)) {
+            return;
+        }
+        const node = decodeText(limited.text, start, end);
+        const found = linkifyWithLimits(node.text, {
+            ...options,
+            // One more link than are left, to know whether there are too many
+            maxLinks: maxLinks === undefined ? undefined : maxLinks - count + 1,
+            maxInputLength: undefined,
+            timeBudget: remainingTime(budget),
+            offsetUnit: "utf16",
+        });
+        if (found.stopped != "max-links") {
+            budget.stopped ??= found.stopped;
+        }
+        let links = dropCutLinks(
+            found.links,
+            end == limited.cut ? node.text.length : undefined,
+            budget,
+        );
+        if (maxLinks !== undefined && count + links.length > maxLinks) {
+            links = links.slice(0, maxLinks - count);
+            budget.stopped ??= "max-links";
+        }
+        count += links.length;
+        onNode(node, links);
+    });
+    if (limited.cut !== undefined) {
+        budget.stopped ??= "max-input-length";
+    }
+    return budget.stopped;
+}
+
+/**
+ * Finds the links in the text of an HTML document or fragment. Attributes, comments and the
+ * content of `a`, `code`, `pre`, `script`, `style`, `textarea`, `title` and `skipTags` elements
+ * are left alone.
+ *
+ * Entities are decoded before searching for links, so the `text` of the links is decoded while
+ * their `start` and `end` are indices in the HTML source. The limits of the options apply to the
+ * whole source, see {@link findLinksInHtmlWithLimits}.
+ *
+ * @param html    the HTML source
+ * @param options which links to search for and how, as for {@link linkify}
+ * @return the links found, ordered by position when overlaps are pruned
+ * @throws TypeError if a limit is invalid
+ */
+export function findLinksInHtml(html: string, options?: HtmlLinkifyOptions): LinkSpec[] {
+    return findLinksInHtmlWithLimits(html, options).links;
+}
+
+/**
+ * Finds the links in the text of an HTML document or fragment as {@link findLinksInHtml} does,
+ * telling whether the search stopped early because of one of the limits of the options.
+ *
+ * The limits apply to the whole source: `maxInputLength` to its length, markup included,
+ * `maxLinks` to the links of all the text nodes, and the time budget and signal to the search of
+ * all of them.
+ *
+ * @param html    the HTML source
+ * @param options which links to search for, how and within which limits
+ * @return the links found and why the search stopped early, if it did
+ * @throws TypeError if a limit is invalid
+ */
+export function findLinksInHtmlWithLimits(
+    html: string,
+    options?: HtmlLinkifyOptions,
+): LinkifyResult {
+    let links: LinkSpec[] = [];
+    const stopped = findLinksInNodes(html, options, (node, nodeLinks) => {
+        for (const link of nodeLinks) {
+            links.push({
+                ...link,
+                start: node.sourceIndex[link.start],
+                end: node.sourceIndex[link.end],
+            });
+        }
+    });
+    links = convertOffsets(html, links, options?.offsetUnit ?? "utf16");
+    return stopped === undefined ? { links } : { links, stopped };
+}
+
+/**
+ * Turns the links found in the text of an HTML document or fragment into anchors, leaving the
+ * rest of the markup untouched. The elements skipped are the same as for {@link findLinksInHtml}
+ * and anchors are rendered as by {@link toHtml}.
+ *
+ * It works on the source without a DOM, so it's available in any environment.
+ *
+ * @param html    the HTML source
+ * @param options which links to search for and how to render them
+ * @return the HTML source with anchors added
+ * @throws TypeError if a limit is invalid
+ */
+export function linkifyHtml(html: string, options?: HtmlLinkifyOptions): string {
+    let result = "";
+    let position = 0;
+    findLinksInNodes(html, options, (node, links) => {
+        for (const segment of toSegments(node.text, links)) {
+            if (segment.type == "text") {
+                continue;
+            }
+            const { link } = segment;
+            const anchor = renderLink(link, segment.value, options);
+            if (anchor !== undefined) {
+                result += html.substring(position, node.sourceIndex[link.start]) + anchor;
+                position = node.sourceIndex[link.end];
+            }
+        }
+    });
+    return result + html.substring(position);
+}
@@ -0,0 +1,420 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type LinkifyOptions, linkify } from "./linkify";
+import type { LinkSpec } from "./LinkSpec";
+import { convertOffsets } from "./offsets";
+import { toSegments } from "./tokenize";
+
+export interface MarkdownLinkifyOptions extends LinkifyOptions {
+    /**
+     * How {@link linkifyMarkdown} writes links: `autolink` writes `<url>` when the text of the link
+     * is its URL and falls back to `[text](url)` otherwise, while `inline` always writes
+     * `[text](url)`. `autolink` by default.
+     */
+    style?: "autolink" | "inline";
+}
+
+type Range = [start: number, end: number];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Lines of indented code blocks, unless they continue a paragraph.
+ */
+const INDENTED_CODE = /^(?: {0,3}\t| {4})/;
+
+/**
+ * Headings don't start a paragraph, so an indented code block can follow them.
+ */
+const ATX_HEADING = /^ {0,3}#{1,6}(?:[ \t]|$)/;
+
+const REFERENCE_DEFINITION = /^ {0,3}\[((?:[^\\\[\]]|\\.)+)\]:[ \t]*\S/;
+
+const AUTOLINK = /<(?:[a-zA-Z][a-zA-Z0-9+.\-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>]+)>/y;
+
+const HTML_TAG = /<\/?[a-zA-Z][^<>]*>/y;
+
+/**
+ * Link reference definitions match their label case-insensitively and with collapsed spaces.
+ */
+function normalizeLabel(label: string) {
+    return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Splits a document in lines, each with the index of its start.
+ */
+function splitLines(md: string) {
+    const lines: { start: number; text: string }[] = [];
+    let start = 0;
+    for (const text of md.split("\n")) {
+        lines.push({ start, text });
+        start += text.length + 1;
+    }
+    return lines;
+}
+
+/**
+ * Labels longer than this can't be link references, as in CommonMark.
+ */
+const MAX_LABEL_LENGTH = 999;
+
+/**
+ * Parentheses nest at most this deep in link destinations, as in CommonMark.
+ */
+const MAX_PARENTHESIS_DEPTH = 32;
+
+/**
+ * The result of a search for the first occurrence of something at or after `from`, remembered so
+ * that the following searches don't scan the same text again.
+ */
+interface Search {
+    from: number;
+    index: number;
+}
+
+/**
+ * Searches again only when the remembered search doesn't answer for `from`, which only grows
+ * while a document is scanned.
+ */
+function searchFrom(searches: Map<string, Search>, key: string, from: number, find: () => number) {
+    const search = searches.get(key);
+    if (
+        search !== undefined &&
+        search.from <= from &&
+        (search.index == -1 || search.index >= from)
+    ) {
+        return search.index;
+    }
+    const index = find();
+    searches.set(key, { from, index });
+    return index;
+}
+
+/**
+ * Index after the `]` closing each `[` between `start` and `end`, matched in a single pass.
+ */
+function matchBrackets(md: string, start: number, end: number) {
+    const closing = new Map<number, number>();
+    const open: number[] = [];
+    for (let i = start; i < end; i++) {
+        const c = md.charAt(i);
+        if (c == "\\") {
+            i++;
+        } else if (c == "[") {
+            open.push(i);
+        } else if (c == "]") {
+            const o = open.pop();
+            if (o !== undefined) {
+                closing.set(o, i + 1);
+            }
+        }
+    }
+    return closing;
+}
+
+function skipSpaces(md: string, i: number, end: number) {
+    while (i < end && /\s/.test(md.charAt(i))) {
+        i++;
+    }
+    return i;
+}
+
+/**
+ * Index after the `)` ending the destination and title of an inline link, starting after the
+ * `(`, or -1 if there is none.
+ *
+ * As in CommonMark, the destination has no space unless it is in `<>` and nests parentheses at
+ * most 32 deep, and the title is quoted or in parentheses. Searches from different `(` then
+ * cover the same text a bounded number of times.
+ */
+function findLinkTailEnd(md: string, start: number, end: number) {
+    let i = skipSpaces(md, start, end);
+    if (md.charAt(i) == "<") {
+        for (i++; i < end && !/[<>\n]/.test(md.charAt(i)); i++) {
+            if (md.charAt(i) == "\\") {
+                i++;
+            }
+        }
+        if (i >= end || md.charAt(i) != ">") {
+            return -1;
+        }
+        i++;
+    } else {
+        let depth = 0;
+        for (; i < end; i++) {
+            const c = md.charAt(i);
+            if (c == "\\") {
+                i++;
+            } else if (/\s/.test(c)) {
+                break;
+            } else if (c == "(") {
+                if (++depth > MAX_PARENTHESIS_DEPTH) {
+                    return -1;
+                }
+            } else if (c == ")") {
+                if (depth == 0) {
+                    break;
+                }
+                depth--;
+            }
+        }
+        if (depth != 0) {
+            return -1;
+        }
+    }
+
+    const destinationEnd = i;
+    i = skipSpaces(md, i, end);
+    const open = md.charAt(i);
+    if (i > destinationEnd && (open == '"' || open == "'" || open == "(")) {
+        const close = open == "(" ? ")" : open;
+        for (i++; i < end && md.charAt(i) != close; i++) {
+            if (md.charAt(i) == "\\") {
+                i++;
+            } else if (open == "(" && md.charAt(i) == "(") {
+                return -1;
+            }
+        }
+        if (i >= end) {
+            return -1;
+        }
+        i = skipSpaces(md, i + 1, end);
+    }
+    return i < end && md.charAt(i) == ")" ? i + 1 : -1;
+}
+
+/**
+ * Finds the protected ranges of the inline content between `start` and `end`: code spans,
+ * autolinks, HTML tags and links.
+ *
+ * Each part of the text is scanned a bounded number of times, whatever the unclosed brackets,
+ * backticks or comments: brackets are matched in a single pass and the searches for closing
+ * backticks and comments are remembered.
+ */
+function findInlineRanges(
+    md: string,
+    start: number,
+    end: number,
+    labels: Set<string>,
+    searches: Map<string, Search>,
+    ranges: Range[],
+) {
+    const closingBrackets = matchBrackets(md, start, end);
+    let i = start;
+    while (i < end) {
+        const c = md.charAt(i);
+        if (c == "\\") {
+            i += 2;
+        } else if (c == "`") {
+            let runEnd = i;
+            while (runEnd < end && md.charAt(runEnd) == "`") {
+                runEnd++;
+            }
+            const run = md.substring(i, runEnd);
+            const close = searchFrom(searches, run, runEnd, () => {
+                let index = md.indexOf(run, runEnd);
+                while (index != -1 && md.charAt(index + run.length) == "`") {
+                    let next = index;
+                    while (md.charAt(next) == "`") {
+                        next++;
+                    }
+                    index = md.indexOf(run, next);
+                }
+                return index;
+            });
+            if (close != -1 && close + run.length <= end) {
+                ranges.push([i, close + run.length]);
+                i = close + run.length;
+            } else {
+                i = runEnd;
+            }
+        } else if (c == "<") {
+            let tagEnd = -1;
+            if (md.startsWith("<!--", i)) {
+                const close = searchFrom(searches, "-->", i + 4, () => md.indexOf("-->", i + 4));
+                tagEnd = close == -1 ? -1 : close + 3;
+            } else {
+                AUTOLINK.lastIndex = i;
+                HTML_TAG.lastIndex = i;
+                const m = AUTOLINK.exec(md) ?? HTML_TAG.exec(md);
+                tagEnd = m == null ? -1 : i + m[0].length;
+            }
+            if (tagEnd != -1 && tagEnd <= end) {
+                ranges.push([i, tagEnd]);
+                i = tagEnd;
+            } else {
+                i++;
+            }
+        } else if (c == "[") {
+            const textEnd = closingBrackets.get(i) ?? -1;
+            let linkEnd = -1;
+            if (textEnd != -1 && md.charAt(textEnd) == "(") {
+                linkEnd = findLinkTailEnd(md, textEnd + 1, end);
+            } else if (textEnd != -1 && md.charAt(textEnd) == "[") {
+                linkEnd = closingBrackets.get(textEnd) ?? -1;
+            } else if (
+                textEnd != -1 &&
+                textEnd - i - 2 <= MAX_LABEL_LENGTH &&
+                labels.has(normalizeLabel(md.substring(i + 1, textEnd - 1)))
+            ) {
+                linkEnd = textEnd;
+            }
+            if (linkEnd != -1) {
+                ranges.push([i, linkEnd]);
+                i = linkEnd;
+            } else {
+                i++;
+            }
+        } else {
+            i++;
+        }
+    }
+}
+
+/**
+ * Finds the ranges of a Markdown document where links must not be searched: fenced and indented
+ * code blocks, link reference definitions, code spans, autolinks, HTML tags and links.
+ */
+function findProtectedRanges(md: string): Range[] {
+    const lines = splitLines(md);
+    const ranges: Range[] = [];
+    const inline: Range[] = [];
+    const labels = new Set<string>();
+    const searches = new Map<string, Search>();
+
+    let fence: string | undefined;
+    let inParagraph = false;
+    let inlineStart = 0;
+    for (const line of lines) {
+        const lineEnd = line.start + line.text.length;
+        let isProtected = true;
+        if (fence !== undefined) {
+            const m = FENCE.exec(line.text);
+            if (m != null && m[1].charAt(0) == fence.charAt(0) && m[1].length >= fence.length) {
+                if (line.text.substring(m[0].length).trim() == "") {
+                    fence = undefined;
+                }
+            }
+        } else if (line.text.trim() == "") {
+            isProtected = false;
+            inParagraph = false;
+        } else if (inParagraph || !INDENTED_CODE.test(line.text)) {
+            // Lines indented as code are a code block unless they continue a paragraph
+            const fenceMatch = FENCE.exec(line.text);
+            const definition = REFERENCE_DEFINITION.exec(line.text);
+            if (fenceMatch != null) {
+                fence = fenceMatch[1];
+                inParagraph = false;
+            } else if (definition != null) {
+                labels.add(normalizeLabel(definition[1]));
+            } else {
+                isProtected = false;
+                inParagraph = !ATX_HEADING.test(line.text);
+            }
+        }
+
+        if (isProtected) {
+            if (inlineStart < line.start) {
+                inline.push([inlineStart, line.start]);
+            }
+            ranges.push([line.start, lineEnd]);
+            inlineStart = lineEnd + 1;
+        }
+    }
+    if (inlineStart < md.length) {
+        inline.push([inlineStart, md.length]);
+    }
+
+    for (const [start, end] of inline) {
+        findInlineRanges(md, start, end, labels, searches, ranges);
+    }
+    return ranges;
+}
+
+/**
+ * Finds the links in a Markdown document, leaving alone the code spans, fenced and indented code
+ * blocks, links, link reference definitions, autolinks and HTML tags it already contains.
+ *
+ * Links are searched with the same detectors as {@link linkify}, as if the protected parts of the
+ * document were blank lines.
+ *
+ * @param md      the Markdown document
+ * @param options which links to search for and how, as for {@link linkify}
+ * @return the links found, ordered by position when overlaps are pruned
+ */
+export function findLinksInMarkdown(md: string, options?: LinkifyOptions): LinkSpec[] {
+    const chars = md.split("");
+    for (const [start, end] of findProtectedRanges(md)) {
+        for (let i = start; i < end; i++) {
+            chars[i] = "\n";
+        }
+    }
+    const links = linkify(chars.join(""), { ...options, offsetUnit: "utf16" });
+    return convertOffsets(md, links, options?.offsetUnit ?? "utf16");
+}
+
+/**
+ * Escapes the characters of link text that Markdown would read as emphasis, code, strikethrough,
+ * table cells, HTML, entities or brackets.
+ */
+function escapeLinkText(text: string) {
+    return text.replace(/[\\`*_~|<>&\[\]]/g, "\\$&");
+}
+
+function formatDestination(url: string) {
+    if (/[\s()<>]/.test(url)) {
+        return "<" + url.replace(/[\s<>]/g, encodeURIComponent) + ">";
+    }
+    return url;
+}
+
+/**
+ * Autolinks need a scheme, unlike the URLs a transform filter may build.
+ */
+const ABSOLUTE_URL = /^[a-zA-Z][a-zA-Z0-9+.\-]{1,31}:/;
+
+function formatLink(link: LinkSpec, text: string, style: "autolink" | "inline") {
+    if (style == "autolink") {
+        if (link.kind == "email" && link.url == "mailto:" + text) {
+            return "<" + text + ">";
+        }
+        if (link.url == text && ABSOLUTE_URL.test(text) && !/[\s<>]/.test(text)) {
+            return "<" + text + ">";
+        }
+    }
+    return "[" + escapeLinkText(text) + "](" + formatDestination(link.url) + ")";
+}
+
+/**
+ * Turns the bare links of a Markdown document into Markdown links, as found by
+ * {@link findLinksInMarkdown}.
+ *
+ * @param md      the Markdown document
+ * @param options which links to search for and how to write them
+ * @return the Markdown document with links written explicitly
+ */
+export function linkifyMarkdown(md: string, options?: MarkdownLinkifyOptions): string {
+    const style = options?.style ?? "autolink";
+    let result = "";
+    const links = findLinksInMarkdown(md, { ...options, offsetUnit: "utf16" });
+    for (const segment of toSegments(md, links)) {
+        result +=
+            segment.type == "text" ? segment.value : formatLink(segment.link, segment.value, style);
+    }
+    return result;
+}
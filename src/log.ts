@@ -14,16 +14,49 @@
  * limitations under the License.
  */
 
+/**
+ * An error reported while finding links:
+ * - `unsupported-character`: the text has a bidi control, so no link was searched for, its
+ *   `detail` being the character as `U+202E`,
+ * - `invalid-host`: a host couldn't be converted to ASCII and was left as is, its `detail`
+ *   being the host.
+ */
+export interface LogEntry {
+    code: "unsupported-character" | "invalid-host";
+    /** What the entry is about */
+    detail: string;
+    /** A description of the error */
+    message: string;
+}
+
+export type LogCode = LogEntry["code"];
+
+export type Logger = (entry: LogEntry) => void;
+
 type LogErrorF = (error: string) => void;
 
 let logErrorF: LogErrorF | undefined;
+let loggerF: Logger | undefined;
 
-export function setLogError(value: LogErrorF) {
+/**
+ * Sets the function the messages of the errors are logged to, none by default.
+ */
+export function setLogError(value: LogErrorF | undefined) {
     logErrorF = value;
 }
 
-export function logError(text: string) {
+/**
+ * Sets the function the errors are logged to as structured entries, none by default.
+ */
+export function setLogger(value: Logger | undefined) {
+    loggerF = value;
+}
+
+export function logError(entry: LogEntry) {
+    if (loggerF) {
+        loggerF(entry);
+    }
     if (logErrorF) {
-        logErrorF(text);
+        logErrorF(entry.message);
     }
 }
@@ -0,0 +1,106 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Unit of the `start` and `end` offsets of links:
+ * - `utf16`: UTF-16 code units, the indices of JavaScript strings,
+ * - `codePoint`: Unicode code points, as indices of Python strings,
+ * - `grapheme`: extended grapheme clusters, as indices of Swift strings,
+ * - `utf8`: bytes of the UTF-8 encoding, as indices of Rust and Go strings.
+ */
+export type OffsetUnit = "utf16" | "codePoint" | "grapheme" | "utf8";
+
+let graphemeSegmenter: Intl.Segmenter | undefined;
+
+function utf8Length(codePoint: number) {
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Converts sorted UTF-16 indices to another unit in a single pass over the text. An index inside
+ * a unit, like between the two halves of a surrogate pair, is converted both to the start of the
+ * unit, `floor`, and to its end, `ceil`.
+ */
+function convertIndices(
+    text: string,
+    indices: readonly number[],
+    unit: Exclude<OffsetUnit, "utf16">,
+) {
+    const floor: number[] = [];
+    const ceil: number[] = [];
+    let i = 0;
+    let count = 0;
+    const visit = (from: number, to: number, weight: number) => {
+        while (i < indices.length && indices[i] < to) {
+            floor.push(count);
+            ceil.push(indices[i] <= from ? count : count + weight);
+            i++;
+        }
+        count += weight;
+    };
+
+    if (unit == "grapheme") {
+        graphemeSegmenter ??= new Intl.Segmenter(undefined, { granularity: "grapheme" });
+        for (const { index, segment } of graphemeSegmenter.segment(text)) {
+            visit(index, index + segment.length, 1);
+        }
+    } else {
+        for (let j = 0; j < text.length;) {
+            const codePoint = text.codePointAt(j)!;
+            const length = codePoint > 0xffff ? 2 : 1;
+            visit(j, j + length, unit == "codePoint" ? 1 : utf8Length(codePoint));
+            j += length;
+        }
+    }
+    for (; i < indices.length; i++) {
+        floor.push(count);
+        ceil.push(count);
+    }
+    return { floor, ceil };
+}
+
+/**
+ * Converts the UTF-16 offsets of links to another unit. The text is walked once whatever the
+ * number of links, and graphemes are found with `Intl.Segmenter`.
+ *
+ * A link that starts or ends inside a unit, like a grapheme cluster that goes on after it, is
+ * widened to cover the whole unit.
+ *
+ * @param text  the text the links were found in
+ * @param links the links, with `start` and `end` in UTF-16 code units
+ * @param unit  the unit to convert the offsets to
+ * @return copies of the links with `start` and `end` in the unit
+ */
+export function convertOffsets<T extends { start: number; end: number }>(
+    text: string,
+    links: readonly T[],
+    unit: OffsetUnit,
+): T[] {
+    if (unit == "utf16") {
+        return links.map((link) => ({ ...link }));
+    }
+
+    const indices = [...new Set(links.flatMap((link) => [link.start, link.end]))].sort(
+        (a, b) => a - b,
+    );
+    const positions = new Map(indices.map((index, i) => [index, i]));
+    const { floor, ceil } = convertIndices(text, indices, unit);
+    return links.map((link) => ({
+        ...link,
+        start: floor[positions.get(link.start)!],
+        end: ceil[positions.get(link.end)!],
+    }));
+}
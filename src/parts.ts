@@ -0,0 +1,96 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Components of a web URL, as found in the text. Nothing is decoded or normalized and absent
+ * components are `undefined`, while an empty path is `""`.
+ */
+export interface UrlParts {
+    /** Lowercase scheme, without the `:` */
+    scheme: string;
+    /** User info, without the trailing `@` */
+    userInfo: string | undefined;
+    /** Host, with the brackets of IPv6 literals */
+    host: string;
+    port: number | undefined;
+    path: string;
+    /** Query, without the leading `?` */
+    query: string | undefined;
+    /** Fragment, without the leading `#` */
+    fragment: string | undefined;
+}
+
+/**
+ * Components of an email address.
+ */
+export interface EmailParts {
+    localPart: string;
+    domain: string;
+}
+
+/**
+ * Components of a phone number.
+ */
+export interface PhoneParts {
+    /** Digits of the number, prefixed by `+` for international numbers */
+    number: string;
+}
+
+/**
+ * Components of a mention, hashtag or cashtag.
+ */
+export interface TagParts {
+    /** The name, without the `@`, `#` or `$` */
+    name: string;
+}
+
+const URL_PARTS =
+    /^([a-zA-Z][a-zA-Z0-9+.-]*):(?:\/\/(?:([^@/?#]*)@)?(\[[^\]/?#]*\]|[^:/?#]*)(?::(\d*))?)?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/s;
+
+/**
+ * Splits a URL produced by the web URL detector in its components.
+ *
+ * @param url a URL that starts with a scheme
+ * @return the components of the URL or undefined if it doesn't start with a scheme
+ */
+export function parseUrlParts(url: string): UrlParts | undefined {
+    const m = URL_PARTS.exec(url);
+    if (m == null) {
+        return undefined;
+    }
+    return {
+        scheme: m[1].toLowerCase(),
+        userInfo: m[2],
+        host: m[3] ?? "",
+        port: m[4] ? parseInt(m[4], 10) : undefined,
+        path: m[5],
+        query: m[6],
+        fragment: m[7],
+    };
+}
+
+/**
+ * Splits an email address in its local part and domain.
+ *
+ * @param address an email address, without the mailto: scheme
+ */
+export function parseEmailParts(address: string): EmailParts {
+    const at = address.lastIndexOf("@");
+    return {
+        localPart: address.substring(0, at),
+        domain: address.substring(at + 1),
+    };
+}
@@ -14,131 +14,85 @@
  * limitations under the License.
  */
 
+import { IANA_TLDS } from "./tlds";
+
+interface TldTrie {
+    end: boolean;
+    children: Map<string, TldTrie>;
+}
+
+function escapeRegExp(s: string, inClass: boolean) {
+    return s.replace(inClass ? /[\\^$.*+?()[\]{}|/\-]/g : /[\\^$.*+?()[\]{}|/]/g, "\\$&");
+}
+
 /**
- *  Regular expression to match all IANA top-level domains.
+ * The alternatives matching the rest of the top-level domains below a node, leaves merged in a
+ * class.
+ */
+function trieAlternatives(node: TldTrie): string[] {
+    const leaves: string[] = [];
+    const alternatives: string[] = [];
+    const children = [...node.children].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    for (const [c, child] of children) {
+        if (child.children.size == 0) {
+            leaves.push(c);
+        } else {
+            alternatives.push(escapeRegExp(c, false) + compileTrie(child));
+        }
+    }
+    if (leaves.length == 1) {
+        alternatives.push(escapeRegExp(leaves[0], false));
+    } else if (leaves.length > 1) {
+        alternatives.push("[" + leaves.map((c) => escapeRegExp(c, true)).join("") + "]");
+    }
+    return alternatives;
+}
+
+function compileTrie(node: TldTrie): string {
+    const alternatives = trieAlternatives(node);
+    if (alternatives.length > 1) {
+        return "(?:" + alternatives.join("|") + ")" + (node.end ? "?" : "");
+    }
+    const [source] = alternatives;
+    if (!node.end) {
+        return source;
+    }
+    // A single character or class can be made optional as is
+    const isAtom = [...node.children.values()].every((child) => child.children.size == 0);
+    return isAtom ? source + "?" : "(?:" + source + ")?";
+}
+
+/**
+ * Compiles top-level domains to a regular expression matching any of them, sharing their common
+ * prefixes like `co(?:m|op)?` instead of listing them all.
  *
- *  List accurate as of 2015/11/24.  List taken from:
- *  http://data.iana.org/TLD/tlds-alpha-by-domain.txt
- *  This pattern is auto-generated by frameworks/ex/common/tools/make-iana-tld-pattern.py
+ * @param tlds the top-level domains, lowercase
+ * @return the source of the regular expression, to use with the `u` flag
+ */
+export function compileTlds(tlds: Iterable<string>): string {
+    const root: TldTrie = { end: false, children: new Map() };
+    for (const tld of tlds) {
+        let node = root;
+        for (const c of tld) {
+            let child = node.children.get(c);
+            if (child === undefined) {
+                child = { end: false, children: new Map() };
+                node.children.set(c, child);
+            }
+            node = child;
+        }
+        node.end = node != root;
+    }
+    const alternatives = trieAlternatives(root);
+    return alternatives.length == 0 ? "(?!)" : "(?:" + alternatives.join("|") + ")";
+}
+
+/**
+ *  Regular expression to match all IANA top-level domains, compiled from {@link IANA_TLDS}.
  *
  *  @hide
  */
-export const IANA_TOP_LEVEL_DOMAINS: string =
-    "(?:" +
-    "(?:aaa|aarp|abb|abbott|abogado|academy|accenture|accountant|accountants|aco|active" +
-    "|actor|ads|adult|aeg|aero|afl|agency|aig|airforce|airtel|allfinanz|alsace|amica|amsterdam" +
-    "|android|apartments|app|apple|aquarelle|aramco|archi|army|arpa|arte|asia|associates" +
-    "|attorney|auction|audio|auto|autos|axa|azure|a[cdefgilmoqrstuwxz])" +
-    "|(?:band|bank|bar|barcelona|barclaycard|barclays|bargains|bauhaus|bayern|bbc|bbva" +
-    "|bcn|beats|beer|bentley|berlin|best|bet|bharti|bible|bid|bike|bing|bingo|bio|biz|black" +
-    "|blackfriday|bloomberg|blue|bms|bmw|bnl|bnpparibas|boats|bom|bond|boo|boots|boutique" +
-    "|bradesco|bridgestone|broadway|broker|brother|brussels|budapest|build|builders|business" +
-    "|buzz|bzh|b[abdefghijmnorstvwyz])" +
-    "|(?:cab|cafe|cal|camera|camp|cancerresearch|canon|capetown|capital|car|caravan|cards" +
-    "|care|career|careers|cars|cartier|casa|cash|casino|cat|catering|cba|cbn|ceb|center|ceo" +
-    "|cern|cfa|cfd|chanel|channel|chat|cheap|chloe|christmas|chrome|church|cipriani|cisco" +
-    "|citic|city|cityeats|claims|cleaning|click|clinic|clothing|cloud|club|clubmed|coach" +
-    "|codes|coffee|college|cologne|com|commbank|community|company|computer|comsec|condos" +
-    "|construction|consulting|contractors|cooking|cool|coop|corsica|country|coupons|courses" +
-    "|credit|creditcard|creditunion|cricket|crown|crs|cruises|csc|cuisinella|cymru|cyou|c[acdfghiklmnoruvwxyz])" +
-    "|(?:dabur|dad|dance|date|dating|datsun|day|dclk|deals|degree|delivery|dell|delta" +
-    "|democrat|dental|dentist|desi|design|dev|diamonds|diet|digital|direct|directory|discount" +
-    "|dnp|docs|dog|doha|domains|doosan|download|drive|durban|dvag|d[ejkmoz])" +
-    "|(?:earth|eat|edu|education|email|emerck|energy|engineer|engineering|enterprises" +
-    "|epson|equipment|erni|esq|estate|eurovision|eus|events|everbank|exchange|expert|exposed" +
-    "|express|e[cegrstu])" +
-    "|(?:fage|fail|fairwinds|faith|family|fan|fans|farm|fashion|feedback|ferrero|film" +
-    "|final|finance|financial|firmdale|fish|fishing|fit|fitness|flights|florist|flowers|flsmidth" +
-    "|fly|foo|football|forex|forsale|forum|foundation|frl|frogans|fund|furniture|futbol|fyi" +
-    "|f[ijkmor])" +
-    "|(?:gal|gallery|game|garden|gbiz|gdn|gea|gent|genting|ggee|gift|gifts|gives|giving" +
-    "|glass|gle|global|globo|gmail|gmo|gmx|gold|goldpoint|golf|goo|goog|google|gop|gov|grainger" +
-    "|graphics|gratis|green|gripe|group|gucci|guge|guide|guitars|guru|g[abdefghilmnpqrstuwy])" +
-    "|(?:hamburg|hangout|haus|healthcare|help|here|hermes|hiphop|hitachi|hiv|hockey|holdings" +
-    "|holiday|homedepot|homes|honda|horse|host|hosting|hoteles|hotmail|house|how|hsbc|hyundai" +
-    "|h[kmnrtu])" +
-    "|(?:ibm|icbc|ice|icu|ifm|iinet|immo|immobilien|industries|infiniti|info|ing|ink|institute" +
-    "|insure|int|international|investments|ipiranga|irish|ist|istanbul|itau|iwc|i[delmnoqrst])" +
-    "|(?:jaguar|java|jcb|jetzt|jewelry|jlc|jll|jobs|joburg|jprs|juegos|j[emop])" +
-    "|(?:kaufen|kddi|kia|kim|kinder|kitchen|kiwi|koeln|komatsu|krd|kred|kyoto|k[eghimnprwyz])" +
-    "|(?:lacaixa|lancaster|land|landrover|lasalle|lat|latrobe|law|lawyer|lds|lease|leclerc" +
-    "|legal|lexus|lgbt|liaison|lidl|life|lifestyle|lighting|limited|limo|linde|link|live" +
-    "|lixil|loan|loans|lol|london|lotte|lotto|love|ltd|ltda|lupin|luxe|luxury|l[abcikrstuvy])" +
-    "|(?:madrid|maif|maison|man|management|mango|market|marketing|markets|marriott|mba" +
-    "|media|meet|melbourne|meme|memorial|men|menu|meo|miami|microsoft|mil|mini|mma|mobi|moda" +
-    "|moe|moi|mom|monash|money|montblanc|mormon|mortgage|moscow|motorcycles|mov|movie|movistar" +
-    "|mtn|mtpc|mtr|museum|mutuelle|m[acdeghklmnopqrstuvwxyz])" +
-    "|(?:nadex|nagoya|name|navy|nec|net|netbank|network|neustar|new|news|nexus|ngo|nhk" +
-    "|nico|ninja|nissan|nokia|nra|nrw|ntt|nyc|n[acefgilopruz])" +
-    "|(?:obi|office|okinawa|omega|one|ong|onl|online|ooo|oracle|orange|org|organic|osaka" +
-    "|otsuka|ovh|om)" +
-    "|(?:page|panerai|paris|partners|parts|party|pet|pharmacy|philips|photo|photography" +
-    "|photos|physio|piaget|pics|pictet|pictures|ping|pink|pizza|place|play|playstation|plumbing" +
-    "|plus|pohl|poker|porn|post|praxi|press|pro|prod|productions|prof|properties|property" +
-    "|protection|pub|p[aefghklmnrstwy])" +
-    "|(?:qpon|quebec|qa)" +
-    "|(?:racing|realtor|realty|recipes|red|redstone|rehab|reise|reisen|reit|ren|rent|rentals" +
-    "|repair|report|republican|rest|restaurant|review|reviews|rich|ricoh|rio|rip|rocher|rocks" +
-    "|rodeo|rsvp|ruhr|run|rwe|ryukyu|r[eosuw])" +
-    "|(?:saarland|sakura|sale|samsung|sandvik|sandvikcoromant|sanofi|sap|sapo|sarl|saxo" +
-    "|sbs|sca|scb|schmidt|scholarships|school|schule|schwarz|science|scor|scot|seat|security" +
-    "|seek|sener|services|seven|sew|sex|sexy|shiksha|shoes|show|shriram|singles|site|ski" +
-    "|sky|skype|sncf|soccer|social|software|sohu|solar|solutions|sony|soy|space|spiegel|spreadbetting" +
-    "|srl|stada|starhub|statoil|stc|stcgroup|stockholm|studio|study|style|sucks|supplies" +
-    "|supply|support|surf|surgery|suzuki|swatch|swiss|sydney|systems|s[abcdeghijklmnortuvxyz])" +
-    "|(?:tab|taipei|tatamotors|tatar|tattoo|tax|taxi|team|tech|technology|tel|telefonica" +
-    "|temasek|tennis|thd|theater|theatre|tickets|tienda|tips|tires|tirol|today|tokyo|tools" +
-    "|top|toray|toshiba|tours|town|toyota|toys|trade|trading|training|travel|trust|tui|t[cdfghjklmnortvwz])" +
-    "|(?:ubs|university|uno|uol|u[agksyz])" +
-    "|(?:vacations|vana|vegas|ventures|versicherung|vet|viajes|video|villas|vin|virgin" +
-    "|vision|vista|vistaprint|viva|vlaanderen|vodka|vote|voting|voto|voyage|v[aceginu])" +
-    "|(?:wales|walter|wang|watch|webcam|website|wed|wedding|weir|whoswho|wien|wiki|williamhill" +
-    "|win|windows|wine|wme|work|works|world|wtc|wtf|w[fs])" +
-    "|(?:\u03b5\u03bb|\u0431\u0435\u043b|\u0434\u0435\u0442\u0438|\u043a\u043e\u043c|\u043c\u043a\u0434" +
-    "|\u043c\u043e\u043d|\u043c\u043e\u0441\u043a\u0432\u0430|\u043e\u043d\u043b\u0430\u0439\u043d" +
-    "|\u043e\u0440\u0433|\u0440\u0443\u0441|\u0440\u0444|\u0441\u0430\u0439\u0442|\u0441\u0440\u0431" +
-    "|\u0443\u043a\u0440|\u049b\u0430\u0437|\u0570\u0561\u0575|\u05e7\u05d5\u05dd|\u0627\u0631\u0627\u0645\u0643\u0648" +
-    "|\u0627\u0644\u0627\u0631\u062f\u0646|\u0627\u0644\u062c\u0632\u0627\u0626\u0631|\u0627\u0644\u0633\u0639\u0648\u062f\u064a\u0629" +
-    "|\u0627\u0644\u0645\u063a\u0631\u0628|\u0627\u0645\u0627\u0631\u0627\u062a|\u0627\u06cc\u0631\u0627\u0646" +
-    "|\u0628\u0627\u0632\u0627\u0631|\u0628\u06be\u0627\u0631\u062a|\u062a\u0648\u0646\u0633" +
-    "|\u0633\u0648\u062f\u0627\u0646|\u0633\u0648\u0631\u064a\u0629|\u0634\u0628\u0643\u0629" +
-    "|\u0639\u0631\u0627\u0642|\u0639\u0645\u0627\u0646|\u0641\u0644\u0633\u0637\u064a\u0646" +
-    "|\u0642\u0637\u0631|\u0643\u0648\u0645|\u0645\u0635\u0631|\u0645\u0644\u064a\u0633\u064a\u0627" +
-    "|\u0645\u0648\u0642\u0639|\u0915\u0949\u092e|\u0928\u0947\u091f|\u092d\u093e\u0930\u0924" +
-    "|\u0938\u0902\u0917\u0920\u0928|\u09ad\u09be\u09b0\u09a4|\u0a2d\u0a3e\u0a30\u0a24|\u0aad\u0abe\u0ab0\u0aa4" +
-    "|\u0b87\u0ba8\u0bcd\u0ba4\u0bbf\u0baf\u0bbe|\u0b87\u0bb2\u0b99\u0bcd\u0b95\u0bc8|\u0b9a\u0bbf\u0b99\u0bcd\u0b95\u0baa\u0bcd\u0baa\u0bc2\u0bb0\u0bcd" +
-    "|\u0c2d\u0c3e\u0c30\u0c24\u0c4d|\u0dbd\u0d82\u0d9a\u0dcf|\u0e04\u0e2d\u0e21|\u0e44\u0e17\u0e22" +
-    "|\u10d2\u10d4|\u307f\u3093\u306a|\u30b0\u30fc\u30b0\u30eb|\u30b3\u30e0|\u4e16\u754c" +
-    "|\u4e2d\u4fe1|\u4e2d\u56fd|\u4e2d\u570b|\u4e2d\u6587\u7f51|\u4f01\u4e1a|\u4f5b\u5c71" +
-    "|\u4fe1\u606f|\u5065\u5eb7|\u516b\u5366|\u516c\u53f8|\u516c\u76ca|\u53f0\u6e7e|\u53f0\u7063" +
-    "|\u5546\u57ce|\u5546\u5e97|\u5546\u6807|\u5728\u7ebf|\u5927\u62ff|\u5a31\u4e50|\u5de5\u884c" +
-    "|\u5e7f\u4e1c|\u6148\u5584|\u6211\u7231\u4f60|\u624b\u673a|\u653f\u52a1|\u653f\u5e9c" +
-    "|\u65b0\u52a0\u5761|\u65b0\u95fb|\u65f6\u5c1a|\u673a\u6784|\u6de1\u9a6c\u9521|\u6e38\u620f" +
-    "|\u70b9\u770b|\u79fb\u52a8|\u7ec4\u7ec7\u673a\u6784|\u7f51\u5740|\u7f51\u5e97|\u7f51\u7edc" +
-    "|\u8c37\u6b4c|\u96c6\u56e2|\u98de\u5229\u6d66|\u9910\u5385|\u9999\u6e2f|\ub2f7\ub137" +
-    "|\ub2f7\ucef4|\uc0bc\uc131|\ud55c\uad6d|xbox" +
-    "|xerox|xin|xn\\-\\-11b4c3d|xn\\-\\-1qqw23a|xn\\-\\-30rr7y|xn\\-\\-3bst00m|xn\\-\\-3ds443g" +
-    "|xn\\-\\-3e0b707e|xn\\-\\-3pxu8k|xn\\-\\-42c2d9a|xn\\-\\-45brj9c|xn\\-\\-45q11c|xn\\-\\-4gbrim" +
-    "|xn\\-\\-55qw42g|xn\\-\\-55qx5d|xn\\-\\-6frz82g|xn\\-\\-6qq986b3xl|xn\\-\\-80adxhks" +
-    "|xn\\-\\-80ao21a|xn\\-\\-80asehdb|xn\\-\\-80aswg|xn\\-\\-90a3ac|xn\\-\\-90ais|xn\\-\\-9dbq2a" +
-    "|xn\\-\\-9et52u|xn\\-\\-b4w605ferd|xn\\-\\-c1avg|xn\\-\\-c2br7g|xn\\-\\-cg4bki|xn\\-\\-clchc0ea0b2g2a9gcd" +
-    "|xn\\-\\-czr694b|xn\\-\\-czrs0t|xn\\-\\-czru2d|xn\\-\\-d1acj3b|xn\\-\\-d1alf|xn\\-\\-efvy88h" +
-    "|xn\\-\\-estv75g|xn\\-\\-fhbei|xn\\-\\-fiq228c5hs|xn\\-\\-fiq64b|xn\\-\\-fiqs8s|xn\\-\\-fiqz9s" +
-    "|xn\\-\\-fjq720a|xn\\-\\-flw351e|xn\\-\\-fpcrj9c3d|xn\\-\\-fzc2c9e2c|xn\\-\\-gecrj9c" +
-    "|xn\\-\\-h2brj9c|xn\\-\\-hxt814e|xn\\-\\-i1b6b1a6a2e|xn\\-\\-imr513n|xn\\-\\-io0a7i" +
-    "|xn\\-\\-j1aef|xn\\-\\-j1amh|xn\\-\\-j6w193g|xn\\-\\-kcrx77d1x4a|xn\\-\\-kprw13d|xn\\-\\-kpry57d" +
-    "|xn\\-\\-kput3i|xn\\-\\-l1acc|xn\\-\\-lgbbat1ad8j|xn\\-\\-mgb9awbf|xn\\-\\-mgba3a3ejt" +
-    "|xn\\-\\-mgba3a4f16a|xn\\-\\-mgbaam7a8h|xn\\-\\-mgbab2bd|xn\\-\\-mgbayh7gpa|xn\\-\\-mgbbh1a71e" +
-    "|xn\\-\\-mgbc0a9azcg|xn\\-\\-mgberp4a5d4ar|xn\\-\\-mgbpl2fh|xn\\-\\-mgbtx2b|xn\\-\\-mgbx4cd0ab" +
-    "|xn\\-\\-mk1bu44c|xn\\-\\-mxtq1m|xn\\-\\-ngbc5azd|xn\\-\\-node|xn\\-\\-nqv7f|xn\\-\\-nqv7fs00ema" +
-    "|xn\\-\\-nyqy26a|xn\\-\\-o3cw4h|xn\\-\\-ogbpf8fl|xn\\-\\-p1acf|xn\\-\\-p1ai|xn\\-\\-pgbs0dh" +
-    "|xn\\-\\-pssy2u|xn\\-\\-q9jyb4c|xn\\-\\-qcka1pmc|xn\\-\\-qxam|xn\\-\\-rhqv96g|xn\\-\\-s9brj9c" +
-    "|xn\\-\\-ses554g|xn\\-\\-t60b56a|xn\\-\\-tckwe|xn\\-\\-unup4y|xn\\-\\-vermgensberater\\-ctb" +
-    "|xn\\-\\-vermgensberatung\\-pwb|xn\\-\\-vhquv|xn\\-\\-vuq861b|xn\\-\\-wgbh1c|xn\\-\\-wgbl6a" +
-    "|xn\\-\\-xhq521b|xn\\-\\-xkc2al3hye2a|xn\\-\\-xkc2dl3a5ee0h|xn\\-\\-y9a3aq|xn\\-\\-yfro4i67o" +
-    "|xn\\-\\-ygbi2ammx|xn\\-\\-zfr164b|xperia|xxx|xyz)" +
-    "|(?:yachts|yamaxun|yandex|yodobashi|yoga|yokohama|youtube|y[et])" +
-    "|(?:zara|zip|zone|zuerich|z[amw]))";
+export const IANA_TOP_LEVEL_DOMAINS: string = compileTlds(IANA_TLDS);
 
 export const IP_ADDRESS_STRING =
     "((25[0-5]|2[0-4][0-9]|[0-1][0-9]{2}|[1-9][0-9]|[1-9])\\.(25[0-5]|2[0-4]" +
@@ -146,30 +100,76 @@ export const IP_ADDRESS_STRING =
     "[0-9]{2}|[1-9][0-9]|[1-9]|0)\\.(25[0-5]|2[0-4][0-9]|[0-1][0-9]{2}" +
     "|[1-9][0-9]|[0-9]))";
 
+const DEC_OCTET = "(?:25[0-5]|2[0-4][0-9]|1[0-9]{2}|[1-9]?[0-9])";
+
+const IPV4_ADDRESS = DEC_OCTET + "(?:\\." + DEC_OCTET + "){3}";
+
+const H16 = "[0-9a-fA-F]{1,4}";
+
+const LS32 = "(?:" + H16 + ":" + H16 + "|" + IPV4_ADDRESS + ")";
+
+/**
+ * An IPv6 address as defined in RFC 3986 section 3.2.2.
+ */
+const IPV6_ADDRESS =
+    "(?:" +
+    [
+        "(?:" + H16 + ":){6}" + LS32,
+        "::(?:" + H16 + ":){5}" + LS32,
+        "(?:" + H16 + ")?::(?:" + H16 + ":){4}" + LS32,
+        "(?:(?:" + H16 + ":){0,1}" + H16 + ")?::(?:" + H16 + ":){3}" + LS32,
+        "(?:(?:" + H16 + ":){0,2}" + H16 + ")?::(?:" + H16 + ":){2}" + LS32,
+        "(?:(?:" + H16 + ":){0,3}" + H16 + ")?::" + H16 + ":" + LS32,
+        "(?:(?:" + H16 + ":){0,4}" + H16 + ")?::" + LS32,
+        "(?:(?:" + H16 + ":){0,5}" + H16 + ")?::" + H16,
+        "(?:(?:" + H16 + ":){0,6}" + H16 + ")?::",
+    ].join("|") +
+    ")";
+
+/**
+ * A zone identifier of RFC 6874, `%25` followed by the zone. A bare `%` is accepted too, as it's
+ * how zones are usually written.
+ */
+const ZONE_ID = "%(?:25)?[a-zA-Z0-9._~\\-]+";
+
+/**
+ * An IPv6 address, with an optional zone, or a future IP version between brackets as defined in
+ * RFC 3986 section 3.2.2.
+ */
+const IP_LITERAL =
+    "\\[(?:" +
+    IPV6_ADDRESS +
+    "(?:" +
+    ZONE_ID +
+    ")?" +
+    "|v[0-9a-fA-F]+\\.[a-zA-Z0-9._~!$&'()*+,;=:\\-]+" +
+    ")\\]";
+
 /**
  * Valid UCS characters defined in RFC 3987. Excludes space characters.
  */
-const UCS_CHAR = "\\xA0-\\u200D\\u2010-\\u2029\\u202F-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFEF";
-const UCS_CHAR_ =
-    "[" +
-    "\u00A0-\uD7FF" +
-    "\uF900-\uFDCF" +
-    "\uFDF0-\uFFEF" +
-    "\uD800\uDC00-\uD83F\uDFFD" +
-    "\uD840\uDC00-\uD87F\uDFFD" +
-    "\uD880\uDC00-\uD8BF\uDFFD" +
-    "\uD8C0\uDC00-\uD8FF\uDFFD" +
-    "\uD900\uDC00-\uD93F\uDFFD" +
-    "\uD940\uDC00-\uD97F\uDFFD" +
-    "\uD980\uDC00-\uD9BF\uDFFD" +
-    "\uD9C0\uDC00-\uD9FF\uDFFD" +
-    "\uDA00\uDC00-\uDA3F\uDFFD" +
-    "\uDA40\uDC00-\uDA7F\uDFFD" +
-    "\uDA80\uDC00-\uDABF\uDFFD" +
-    "\uDAC0\uDC00-\uDAFF\uDFFD" +
-    "\uDB00\uDC00-\uDB3F\uDFFD" +
-    "\uDB44\uDC00-\uDB7F\uDFFD" +
-    "&&[^\u00A0[\u2000-\u200A]\u2028\u2029\u202F\u3000]]";
+const UCS_CHAR =
+    "\\u00A1-\\u1FFF" +
+    "\\u200B-\\u2027" +
+    "\\u202A-\\u202E" +
+    "\\u2030-\\u2FFF" +
+    "\\u3001-\\uD7FF" +
+    "\\uF900-\\uFDCF" +
+    "\\uFDF0-\\uFFEF" +
+    "\\u{10000}-\\u{1FFFD}" +
+    "\\u{20000}-\\u{2FFFD}" +
+    "\\u{30000}-\\u{3FFFD}" +
+    "\\u{40000}-\\u{4FFFD}" +
+    "\\u{50000}-\\u{5FFFD}" +
+    "\\u{60000}-\\u{6FFFD}" +
+    "\\u{70000}-\\u{7FFFD}" +
+    "\\u{80000}-\\u{8FFFD}" +
+    "\\u{90000}-\\u{9FFFD}" +
+    "\\u{A0000}-\\u{AFFFD}" +
+    "\\u{B0000}-\\u{BFFFD}" +
+    "\\u{C0000}-\\u{CFFFD}" +
+    "\\u{D0000}-\\u{DFFFD}" +
+    "\\u{E1000}-\\u{EFFFD}";
 
 /**
  * Valid characters for IRI label defined in RFC 3987.
@@ -189,7 +189,7 @@ const IRI_LABEL = "[" + LABEL_CHAR + "](?:[" + LABEL_CHAR + "_\\-]{0,61}[" + LAB
 /**
  * RFC 3492 references RFC 1034 and limits Punycode algorithm output to 63 characters.
  */
-const PUNYCODE_TLD = "xn\\-\\-[\\w\\-]{0,58}\\w";
+const PUNYCODE_TLD = "xn--[\\w\\-]{0,58}\\w";
 
 const TLD = "(" + PUNYCODE_TLD + "|" + "[" + TLD_CHAR + "]{2,63}" + ")";
 
@@ -197,25 +197,79 @@ const HOST_NAME = "(" + IRI_LABEL + "\\.)+" + TLD;
 
 const DOMAIN_NAME_STR = "(" + HOST_NAME + "|" + IP_ADDRESS_STRING + ")";
 
-export const DOMAIN_NAME = new RegExp(DOMAIN_NAME_STR, "g");
+export const DOMAIN_NAME = new RegExp(DOMAIN_NAME_STR, "gu");
 
-const PROTOCOL = "(http|https|rtsp)://";
+/**
+ * Matches a scheme name case-insensitively, without making the rest of the pattern so.
+ */
+function caseInsensitive(name: string) {
+    return name.replace(/[a-zA-Z]|[+.]/g, (c) =>
+        c == "+" || c == "." ? "\\" + c : "[" + c.toLowerCase() + c.toUpperCase() + "]",
+    );
+}
+
+/**
+ * Regular expression that matches one of the schemes of URLs with an authority, with the `://`
+ * following it.
+ */
+function protocol(schemes: readonly string[]) {
+    return "(?:" + schemes.map(caseInsensitive).join("|") + ")://";
+}
+
+const PROTOCOL = protocol(["http", "https", "rtsp"]);
+
+/**
+ * Characters of a word, as for the word boundaries of ICU that Android's patterns rely on.
+ */
+const WORD_CHAR = "[\\p{Alphabetic}\\p{M}\\p{Nd}\\p{Pc}\\u200C\\u200D]";
 
 /* A word boundary or end of input.  This is to stop foo.sure from matching as foo.su */
-const WORD_BOUNDARY = "(?:\\b|$|^)";
+const WORD_BOUNDARY =
+    "(?:(?<=" +
+    WORD_CHAR +
+    ")(?!" +
+    WORD_CHAR +
+    ")|(?<!" +
+    WORD_CHAR +
+    ")(?=" +
+    WORD_CHAR +
+    ")|$|^)";
+
+/**
+ * The end of a URL: a word boundary, or anything after the bracket closing an IP literal.
+ */
+const URL_END = "(?:" + WORD_BOUNDARY + "|(?<=\\]))";
+
+/**
+ * The start of a host that isn't preceded by a scheme. IP literals start with a bracket so they
+ * can't rely on a word boundary.
+ */
+const BARE_HOST_START = "(?<!" + WORD_CHAR + "|:\\/\\/)";
 
 const USER_INFO =
-    "(?:[a-zA-Z0-9\\$\\-\\_\\.\\+\\!\\*\\'\\(\\)" +
-    "\\,\\;\\?\\&\\=]|(?:\\%[a-fA-F0-9]{2})){1,64}(?:\\:(?:[a-zA-Z0-9\\$\\-\\_" +
-    "\\.\\+\\!\\*\\'\\(\\)\\,\\;\\?\\&\\=]|(?:\\%[a-fA-F0-9]{2})){1,25})?\\@";
+    "(?:[a-zA-Z0-9$\\-_.+!*'()" +
+    ",;?&=]|(?:%[a-fA-F0-9]{2})){1,64}(?::(?:[a-zA-Z0-9$\\-_" +
+    ".+!*'(),;?&=]|(?:%[a-fA-F0-9]{2})){1,25})?@";
 
-const PORT_NUMBER = "\\:\\d{1,5}";
+const PORT_NUMBER = ":\\d{1,5}";
 
-const PATH_AND_QUERY =
-    "[/\\?](?:(?:[" +
+const PATH_CHAR =
+    "(?:(?:[" +
     LABEL_CHAR +
     ";/\\?:@&=#~" + // plus optional query params
-    "\\-\\.\\+!\\*'\\(\\),_\\$])|(?:%[a-fA-F0-9]{2}))*";
+    "\\-\\.\\+!\\*'\\(\\),_\\$])|(?:%[a-fA-F0-9]{2}))";
+
+const PATH_AND_QUERY = "[/\\?]" + PATH_CHAR + "*";
+
+/**
+ * Sticky pattern matching the characters that can continue the path or query of a web URL.
+ */
+export const PATH_CONTINUATION = new RegExp(PATH_CHAR + "*", "uy");
+
+/**
+ * Sticky pattern matching the path or query of a web URL.
+ */
+export const PATH_AND_QUERY_START = new RegExp(PATH_AND_QUERY, "uy");
 
 /**
  *  Regular expression pattern to match most part of RFC 3987
@@ -242,92 +296,323 @@ export const WEB_URL = new RegExp(
         ")?" +
         WORD_BOUNDARY +
         ")",
-    "g",
+    "gu",
 );
 
 /**
  * Regular expression that matches known TLDs and punycode TLDs
  */
-const STRICT_TLD = "(?:" + IANA_TOP_LEVEL_DOMAINS + "|" + PUNYCODE_TLD + ")";
+function strictTld(topLevelDomains: string) {
+    return "(?:" + topLevelDomains + "|" + PUNYCODE_TLD + ")";
+}
 
 /**
- * Regular expression that matches host names using {@link #STRICT_TLD}
+ * Regular expression that matches host names using {@link strictTld}
  */
-const STRICT_HOST_NAME = "(?:(?:" + IRI_LABEL + "\\.)+" + STRICT_TLD + ")";
+function strictHostName(topLevelDomains: string) {
+    return "(?:(?:" + IRI_LABEL + "\\.)+" + strictTld(topLevelDomains) + ")";
+}
 
 /**
- * Regular expression that matches domain names using either {@link #STRICT_HOST_NAME} or
- * {@link #IP_ADDRESS}
+ * Regular expression that matches domain names using either {@link strictHostName} or
+ * {@link IP_ADDRESS_STRING}
  */
-const STRICT_DOMAIN_NAME = "(?:" + STRICT_HOST_NAME + "|" + IP_ADDRESS_STRING + ")";
+function strictDomainName(topLevelDomains: string) {
+    return "(?:" + strictHostName(topLevelDomains) + "|" + IP_ADDRESS_STRING + ")";
+}
 
 /**
  * Regular expression that matches domain names without a TLD
  */
 const RELAXED_DOMAIN_NAME =
-    "(?:" + "(?:" + IRI_LABEL + "(?:\\.(?=\\S))" + "?)+" + "|" + IP_ADDRESS_STRING + ")";
+    "(?:" +
+    "(?:" +
+    IRI_LABEL +
+    "(?:\\.(?=\\S))" +
+    "?)+" +
+    "|" +
+    IP_ADDRESS_STRING +
+    "|" +
+    IP_LITERAL +
+    ")";
 
 /**
- * Regular expression to match strings that do not start with a supported protocol. The TLDs
- * are expected to be one of the known TLDs.
+ * Labels following each other without a dot, matched as a single run.
  */
-const WEB_URL_WITHOUT_PROTOCOL =
-    "(" +
-    WORD_BOUNDARY +
-    // TODO HANDLE THIS DIFFERENTLY, LOOKBEHIND IS PROBLEMATIC
-    // + "(?<!:\\/\\/)"
-    "(" +
-    "(?:" +
-    STRICT_DOMAIN_NAME +
-    ")" +
-    "(?:" +
-    PORT_NUMBER +
-    ")?" +
-    ")" +
+const RELAXED_LABELS = "[" + LABEL_CHAR + "]+(?:[_\\-]+[" + LABEL_CHAR + "]+)*";
+
+/**
+ * Regular expression that matches the same domain names as {@link RELAXED_DOMAIN_NAME}, except
+ * that labels with a `-` or `_` aren't limited to 63 characters. The labels of a run can't be
+ * split in several ways, so a match that fails is given up in linear time.
+ */
+const LINEAR_RELAXED_DOMAIN_NAME =
     "(?:" +
-    PATH_AND_QUERY +
-    ")?" +
-    WORD_BOUNDARY +
+    RELAXED_LABELS +
+    "(?:\\.(?=\\S)" +
+    RELAXED_LABELS +
+    ")*(?:\\.(?=\\S))?" +
+    "|" +
+    IP_ADDRESS_STRING +
+    "|" +
+    IP_LITERAL +
     ")";
 
+/**
+ * Regular expression to match strings that do not start with a supported protocol. The TLDs
+ * are expected to be one of the known TLDs.
+ */
+function webUrlWithoutProtocol(topLevelDomains: string) {
+    return (
+        "(" +
+        "(" +
+        "(?:" +
+        WORD_BOUNDARY +
+        "(?<!:\\/\\/)" +
+        strictDomainName(topLevelDomains) +
+        "|" +
+        BARE_HOST_START +
+        IP_LITERAL +
+        ")" +
+        "(?:" +
+        PORT_NUMBER +
+        ")?" +
+        ")" +
+        "(?:" +
+        PATH_AND_QUERY +
+        ")?" +
+        URL_END +
+        ")"
+    );
+}
+
+/**
+ * Regular expression to match single-label hosts like `localhost` that don't start with a
+ * supported protocol. They must be followed by a port or a path to be told apart from words.
+ */
+function intranetUrl(hosts: readonly string[]) {
+    return (
+        "(" +
+        WORD_BOUNDARY +
+        "(?<![.\\-]|:\\/\\/)" +
+        "(?:" +
+        hosts.map(caseInsensitive).join("|") +
+        ")" +
+        "(?:" +
+        PORT_NUMBER +
+        "(?:" +
+        PATH_AND_QUERY +
+        ")?" +
+        "|/" +
+        PATH_CHAR +
+        "*" +
+        ")" +
+        URL_END +
+        ")"
+    );
+}
+
 /**
  * Regular expression to match strings that start with a supported protocol. Rules for domain
  * names and TLDs are more relaxed. TLDs are optional.
  */
-const WEB_URL_WITH_PROTOCOL =
-    "(" +
-    WORD_BOUNDARY +
-    "(?:" +
-    "(?:" +
-    PROTOCOL +
-    "(?:" +
-    USER_INFO +
-    ")?" +
-    ")" +
-    "(?:" +
-    RELAXED_DOMAIN_NAME +
-    ")?" +
-    "(?:" +
-    PORT_NUMBER +
-    ")?" +
-    ")" +
-    "(?:" +
-    PATH_AND_QUERY +
-    ")?" +
-    WORD_BOUNDARY +
-    ")";
+function webUrlWithProtocol(schemes: readonly string[], domainName = RELAXED_DOMAIN_NAME) {
+    return (
+        "(" +
+        WORD_BOUNDARY +
+        "(?:" +
+        "(?:" +
+        protocol(schemes) +
+        "(?:" +
+        USER_INFO +
+        ")?" +
+        ")" +
+        "(?:" +
+        domainName +
+        ")?" +
+        "(?:" +
+        PORT_NUMBER +
+        ")?" +
+        ")" +
+        "(?:" +
+        PATH_AND_QUERY +
+        ")?" +
+        URL_END +
+        ")"
+    );
+}
+
+/**
+ * Regular expression to match strings that start with a supported scheme of URLs without an
+ * authority, like `magnet:?xt=…`. Everything following the scheme is matched as a path.
+ */
+function webUrlWithOpaqueScheme(schemes: readonly string[]) {
+    return (
+        "(" +
+        WORD_BOUNDARY +
+        "(?:" +
+        schemes.map(caseInsensitive).join("|") +
+        "):" +
+        PATH_CHAR +
+        "+" +
+        WORD_BOUNDARY +
+        ")"
+    );
+}
+
+/**
+ * What the pattern of web URLs built by {@link autolinkWebUrl} matches.
+ */
+export interface WebUrlPatternOptions {
+    /** The regular expression matching the known top-level domains, see {@link compileTlds} */
+    topLevelDomains: string;
+    /** Names of the schemes whose URLs have an authority, like `https` */
+    schemes: readonly string[];
+    /** Names of the schemes whose URLs have no authority, like `magnet` */
+    opaqueSchemes: readonly string[];
+    /** Whether URLs without a scheme are matched, they need a known top-level domain */
+    withoutScheme: boolean;
+    /** Single-label hosts matched without a scheme when followed by a port or a path */
+    intranetHosts: readonly string[];
+}
+
+/**
+ * Builds the pattern of {@link AUTOLINK_WEB_URL} for other schemes or known top-level domains.
+ */
+export function autolinkWebUrl(options: WebUrlPatternOptions): RegExp {
+    const alternatives: string[] = [];
+    if (options.schemes.length > 0) {
+        alternatives.push(webUrlWithProtocol(options.schemes));
+    }
+    if (options.opaqueSchemes.length > 0) {
+        alternatives.push(webUrlWithOpaqueScheme(options.opaqueSchemes));
+    }
+    if (options.withoutScheme) {
+        alternatives.push(webUrlWithoutProtocol(options.topLevelDomains));
+        if (options.intranetHosts.length > 0) {
+            alternatives.push(intranetUrl(options.intranetHosts));
+        }
+    }
+    return new RegExp(alternatives.length == 0 ? "(?!)" : "(" + alternatives.join("|") + ")", "gu");
+}
+
+/**
+ * The sticky patterns a web URL scanner is made of, see {@link compileWebUrlScanner}. They match
+ * the same URLs as {@link autolinkWebUrl}, the host names of URLs without a scheme being split in
+ * their labels.
+ *
+ * @hide
+ */
+export interface WebUrlScannerPatterns {
+    /** Where a URL may start, a global pattern */
+    start: RegExp;
+    /** URLs with a scheme */
+    withScheme: RegExp;
+    /** The first label of a host name without a scheme, with the dot following it */
+    firstLabel: RegExp;
+    /** A label of a host name with the dot following it */
+    label: RegExp;
+    /** The top-level domain ending a host name, with the port, path and query following it */
+    hostEnd: RegExp;
+    /** URLs without a scheme whose host isn't a host name, and intranet URLs */
+    otherHosts: RegExp;
+}
+
+/**
+ * Builds the patterns of a scanner matching the URLs {@link autolinkWebUrl} does.
+ *
+ * @hide
+ */
+export function webUrlScannerPatterns(options: WebUrlPatternOptions): WebUrlScannerPatterns {
+    const withScheme: string[] = [];
+    if (options.schemes.length > 0) {
+        withScheme.push(webUrlWithProtocol(options.schemes, LINEAR_RELAXED_DOMAIN_NAME));
+    }
+    if (options.opaqueSchemes.length > 0) {
+        withScheme.push(webUrlWithOpaqueScheme(options.opaqueSchemes));
+    }
+    const otherHosts: string[] = [];
+    if (options.withoutScheme) {
+        otherHosts.push(
+            "(?:" +
+                WORD_BOUNDARY +
+                "(?<!:\\/\\/)" +
+                IP_ADDRESS_STRING +
+                "|" +
+                BARE_HOST_START +
+                IP_LITERAL +
+                ")(?:" +
+                PORT_NUMBER +
+                ")?(?:" +
+                PATH_AND_QUERY +
+                ")?" +
+                URL_END,
+        );
+        if (options.intranetHosts.length > 0) {
+            otherHosts.push(intranetUrl(options.intranetHosts));
+        }
+    }
+    const sticky = (alternatives: string[]) =>
+        new RegExp(alternatives.length == 0 ? "(?!)" : alternatives.join("|"), "uy");
+    // Schemes, labels and intranet hosts are followed by a `:`, `.` or `/`
+    const schemes = [...options.schemes, ...options.opaqueSchemes];
+    const length = Math.max(63, ...schemes.map((scheme) => scheme.length));
+    return {
+        start: new RegExp(
+            WORD_BOUNDARY +
+                "(?=[" +
+                LABEL_CHAR +
+                "][" +
+                LABEL_CHAR +
+                "_+\\-]{0," +
+                length +
+                "}[.:/])|" +
+                BARE_HOST_START +
+                "(?=\\[)",
+            "gu",
+        ),
+        withScheme: sticky(withScheme),
+        firstLabel: sticky(
+            options.withoutScheme ? [WORD_BOUNDARY + "(?<!:\\/\\/)" + IRI_LABEL + "\\."] : [],
+        ),
+        label: sticky([IRI_LABEL + "\\."]),
+        hostEnd: sticky([
+            strictTld(options.topLevelDomains) +
+                "(?:" +
+                PORT_NUMBER +
+                ")?(?:" +
+                PATH_AND_QUERY +
+                ")?" +
+                URL_END,
+        ]),
+        otherHosts: sticky(otherHosts),
+    };
+}
+
+/**
+ * What {@link AUTOLINK_WEB_URL} matches.
+ *
+ * @hide
+ */
+export const AUTOLINK_WEB_URL_OPTIONS: WebUrlPatternOptions = {
+    topLevelDomains: IANA_TOP_LEVEL_DOMAINS,
+    schemes: ["http", "https", "rtsp"],
+    opaqueSchemes: [],
+    withoutScheme: true,
+    intranetHosts: [],
+};
 
 /**
  * Regular expression pattern to match IRIs. If a string starts with http(s):// the expression
  * tries to match the URL structure with a relaxed rule for TLDs. If the string does not start
  * with http(s):// the TLDs are expected to be one of the known TLDs.
  *
+ * Links are found with a scanner matching the same URLs in linear time, see
+ * {@link compileWebUrlScanner}, the pattern being its reference.
+ *
  * @hide
  */
-export const AUTOLINK_WEB_URL = new RegExp(
-    "(" + WEB_URL_WITH_PROTOCOL + "|" + WEB_URL_WITHOUT_PROTOCOL + ")",
-    "g",
-);
+export const AUTOLINK_WEB_URL = autolinkWebUrl(AUTOLINK_WEB_URL_OPTIONS);
 
 /**
  * Regular expression for valid email characters. Does not include some of the valid characters
@@ -363,16 +648,61 @@ export const AUTOLINK_EMAIL_ADDRESS = new RegExp(
         ")" +
         WORD_BOUNDARY +
         ")",
-    "g",
+    "gu",
 );
 
 export const EMAIL_ADDRESS = new RegExp(
-    "[a-zA-Z0-9\\+\\.\\_\\%\\-\\+]{1,256}" +
-        "\\@" +
+    "[a-zA-Z0-9+._%\\-+]{1,256}" +
+        "@" +
         "[a-zA-Z0-9][a-zA-Z0-9\\-]{0,64}" +
         "(" +
         "\\." +
         "[a-zA-Z0-9][a-zA-Z0-9\\-]{0,25}" +
         ")+",
+    "gu",
+);
+
+/**
+ * This pattern is intended for searching for things that look like they
+ * might be phone numbers in arbitrary text, not for validating whether
+ * something is in fact a phone number.  It will miss many things that
+ * are legitimate phone numbers.
+ *
+ * <p> The pattern matches the following:
+ * <ul>
+ * <li>Optionally, a + sign followed immediately by one or more digits. Spaces, dots, or dashes
+ * may follow.
+ * <li>Optionally, sets of digits in parentheses, separated by spaces, dots, or dashes.
+ * <li>A string starting and ending with a digit, containing digits, spaces, dots, and/or dashes.
+ * </ul>
+ */
+export const PHONE = new RegExp(
+    // sdd = space, dot, or dash
+    "(\\+[0-9]+[\\- \\.]*)?" + // +<digits><sdd>*
+        "(\\([0-9]+\\)[\\- \\.]*)?" + // (<digits>)<sdd>*
+        "([0-9][0-9\\- \\.]+[0-9])", // <digit><digit|sdd>+<digit>
     "g",
 );
+
+/**
+ *  Convenience method to return only the digits and plus signs
+ *  in the matching string.
+ *
+ *  Takes the matched text rather than a Matcher, as phone numbers found
+ *  by a {@link PhoneNumberMatcher} don't come from a RegExp.
+ *
+ *  @param text     the text matched as a phone number
+ *
+ *  @return         A String comprising all of the digits and plus in
+ *                  the match
+ */
+export function digitsAndPlusOnly(text: string): string {
+    let buffer = "";
+    for (let i = 0; i < text.length; i++) {
+        const character = text.charAt(i);
+        if (character == "+" || (character >= "0" && character <= "9")) {
+            buffer += character;
+        }
+    }
+    return buffer;
+}
@@ -0,0 +1,160 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PHONE, digitsAndPlusOnly } from "./patterns";
+
+/**
+ * A phone number found in a text, `end` being exclusive.
+ */
+export interface PhoneNumberMatch {
+    start: number;
+    end: number;
+}
+
+/**
+ * Finds the phone numbers in a text. This is the extension point taking the place of the
+ * libphonenumber `findNumbers` call in Android, so that it can be plugged in by the caller
+ * without this package depending on it.
+ *
+ * @param text          the text to search
+ * @param defaultRegion the ISO 3166-1 two-letter region used for numbers written without an
+ *                      international prefix, Android reads it from the SIM.
+ */
+export type PhoneNumberMatcher = (
+    text: string,
+    defaultRegion: string | undefined,
+) => Iterable<PhoneNumberMatch>;
+
+/**
+ * Regions sharing the North American Numbering Plan (country code 1).
+ */
+const NANP_REGIONS = new Set(
+    "US CA AG AI AS BB BM BS DM DO GD GU JM KN KY LC MP MS PR SX TC TT VC VG VI".split(" "),
+);
+
+/**
+ * Android requires this many digits before considering a match to be a phone number.
+ *
+ * @hide
+ */
+export const PHONE_NUMBER_MINIMUM_DIGITS = 5;
+
+/**
+ * E.164 limits a phone number, country code included, to 15 digits.
+ */
+const PHONE_NUMBER_MAXIMUM_DIGITS = 15;
+
+const IPV4_LIKE = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+/**
+ * Dates like `2020-01-01` or `31.12.1999`.
+ */
+const DATE_LIKE = /^(?:\d{4}([-.])\d{1,2}\1\d{1,2}|\d{1,2}([-.])\d{1,2}\2\d{4})$/;
+
+/**
+ * Decimal numbers like `3.14159`, a 3 and 4 digit grouping being the local numbers of the North
+ * American Numbering Plan.
+ */
+const DECIMAL_LIKE = /^(?!\d{3}\.\d{4}$)\d+\.\d+$/;
+
+/**
+ * Whether a national number looks like something else than a phone number: a bare run of digits
+ * like an order number, a date, a decimal number, or a version or ISBN whose groups have a single
+ * digit, a leading trunk prefix `1` excepted.
+ */
+function isOtherNumber(number: string) {
+    if (/^\d+$/.test(number) || DATE_LIKE.test(number) || DECIMAL_LIKE.test(number)) {
+        return true;
+    }
+    const groups = number.split(/\D+/).filter((group) => group != "");
+    return groups.some((group, i) => group.length == 1 && !(i == 0 && group == "1"));
+}
+
+function isWordChar(c: string) {
+    return /[\p{L}\p{N}_]/u.test(c);
+}
+
+/**
+ * A NANP national number is a 3 digit area code and a 3 digit exchange, both starting with 2-9,
+ * followed by 4 digits. The area code can be omitted for local numbers and the whole number can
+ * be prefixed by the trunk prefix 1.
+ */
+function isNanpNationalNumber(digits: string) {
+    if (digits.length == 11 && digits.charAt(0) == "1") {
+        digits = digits.substring(1);
+    }
+    if (digits.length == 7) {
+        return digits.charAt(0) >= "2";
+    }
+    if (digits.length == 10) {
+        return digits.charAt(0) >= "2" && digits.charAt(3) >= "2";
+    }
+    return false;
+}
+
+/**
+ * The phone number recognizer used when none is provided. It uses the {@link PHONE} pattern that
+ * Android used before switching to libphonenumber and validates the digit count of each match:
+ *
+ * - Numbers starting with `+` are international and need 8 to 15 digits.
+ * - When the default region is part of the North American Numbering Plan, national numbers must
+ *   be 7 or 10 digits, optionally prefixed by `1`.
+ * - Otherwise national numbers need 5 to 15 digits.
+ *
+ * Matches touching a letter or digit, and dotted quads that look like IPv4 addresses, are
+ * rejected. So are national numbers without any grouping, and the ones shaped like dates,
+ * decimal numbers, versions or ISBNs.
+ */
+export const builtInPhoneNumberMatcher: PhoneNumberMatcher = function* (text, defaultRegion) {
+    const pattern = new RegExp(PHONE);
+    const nanp = defaultRegion !== undefined && NANP_REGIONS.has(defaultRegion.toUpperCase());
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text)) != null) {
+        const start = m.index;
+        const end = start + m[0].length;
+        if ((start > 0 && isWordChar(text.charAt(start - 1))) || isWordChar(text.charAt(end))) {
+            continue;
+        }
+        if (IPV4_LIKE.test(m[0])) {
+            continue;
+        }
+        // Part of a longer code, like the check character of ISBN 0-8044-2957-X
+        if (
+            /^-[\p{L}\p{N}]/u.test(text.substring(end, end + 2)) ||
+            /[\p{L}\p{N}]-$/u.test(text.substring(start - 2, start))
+        ) {
+            continue;
+        }
+
+        const number = digitsAndPlusOnly(m[0]);
+        const international = number.charAt(0) == "+";
+        const digits = international ? number.substring(1) : number;
+        if (
+            digits.length < PHONE_NUMBER_MINIMUM_DIGITS ||
+            digits.length > PHONE_NUMBER_MAXIMUM_DIGITS
+        ) {
+            continue;
+        }
+        if (international ? digits.length < 8 : nanp && !isNanpNationalNumber(digits)) {
+            continue;
+        }
+        if (!international && isOtherNumber(m[0])) {
+            continue;
+        }
+
+        yield { start, end };
+    }
+};
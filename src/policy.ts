@@ -0,0 +1,256 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { canonicalizeUrl } from "./canonical";
+import type { LinkSpec, WebLinkSpec } from "./LinkSpec";
+import { parseUrlParts } from "./parts";
+import { toASCII } from "./punycode";
+import { assessLinkRisk } from "./risk";
+
+/**
+ * Rules deciding which links are kept, applied to the links found by {@link linkify}.
+ */
+export interface LinkPolicy {
+    /**
+     * Domains whose hosts are allowed, subdomains included. When set, links with another host
+     * are rejected.
+     */
+    allowDomains?: string[];
+
+    /** Domains whose hosts are rejected, subdomains included */
+    denyDomains?: string[];
+
+    /**
+     * Schemes allowed, without the `:`, like `https` or `mailto`. When set, links with another
+     * scheme are rejected, while the ones without a scheme, like tags, are kept.
+     */
+    allowSchemes?: string[];
+
+    /** Whether links to an IP address rather than a domain are allowed, `true` by default */
+    ipHosts?: boolean;
+
+    /**
+     * What to do with web URLs that have a user info, like `user:pass@`: `allow` them, the
+     * default, `strip` it from the URL, or `reject` them.
+     */
+    credentials?: "allow" | "strip" | "reject";
+
+    /** Whether `http` URLs are rewritten to `https`, `false` by default */
+    upgradeHttp?: boolean;
+
+    /** Maximum length of the URLs, longer ones are rejected */
+    maxUrlLength?: number;
+}
+
+/**
+ * Why a link was rejected or rewritten by a policy:
+ * - `scheme`: the scheme isn't allowed,
+ * - `credentials`: the URL has a user info,
+ * - `ip-host`: the host is an IP address,
+ * - `denied-domain`: the host is in a denied domain,
+ * - `unlisted-domain`: the host isn't in any of the allowed domains,
+ * - `too-long`: the URL is longer than the maximum length,
+ * - `credentials-stripped`: the user info was removed from the URL,
+ * - `https-upgraded`: the `http` scheme was replaced by `https`.
+ */
+export type PolicyCode =
+    | "scheme"
+    | "credentials"
+    | "ip-host"
+    | "denied-domain"
+    | "unlisted-domain"
+    | "too-long"
+    | "credentials-stripped"
+    | "https-upgraded";
+
+export interface PolicyReason {
+    code: PolicyCode;
+    /** Whether the link was rejected or rewritten for this reason */
+    action: "reject" | "rewrite";
+    /** The link as it was found */
+    link: LinkSpec;
+}
+
+export interface PolicyResult {
+    /** The links accepted, with their rewrites applied */
+    links: LinkSpec[];
+    /** Why links were rejected or rewritten, in the order of the links */
+    reasons: PolicyReason[];
+}
+
+const SCHEME = /^([a-zA-Z][a-zA-Z0-9+.\-]*):/;
+const IPV4 = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+function normalizeDomain(domain: string) {
+    let ascii: string;
+    try {
+        ascii = toASCII(domain);
+    } catch {
+        ascii = domain.toLowerCase();
+    }
+    return ascii.replace(/^\.+|\.+$/g, "");
+}
+
+function hostOf(link: LinkSpec): string | undefined {
+    switch (link.kind) {
+        case "web":
+            return link.parts.host;
+        case "email":
+            return link.parts.domain;
+        case "phone":
+            return undefined;
+        default:
+            return parseUrlParts(link.url)?.host || undefined;
+    }
+}
+
+function isIpHost(host: string) {
+    return host.startsWith("[") || IPV4.test(host);
+}
+
+function inDomains(host: string, domains: readonly string[]) {
+    return domains.some((domain) => host == domain || host.endsWith("." + domain));
+}
+
+/**
+ * The canonical URL of a link upgraded to https, from the one of its http URL so that the
+ * tracking parameters removed with the options of {@link linkify} stay removed.
+ */
+function upgradeCanonicalUrl(canonicalUrl: string, port: number | undefined) {
+    let url = "https" + canonicalUrl.substring(4);
+    if (port == 80) {
+        // The default port of http was left out, but it isn't the one of https
+        const pathStart = url.indexOf("/", "https://".length);
+        url = url.substring(0, pathStart) + ":80" + url.substring(pathStart);
+    }
+    return canonicalizeUrl(url, { trackingParameters: [] });
+}
+
+/**
+ * A copy of a web link with a rewritten URL, its canonical URL and risk following it.
+ */
+function rewriteLink(
+    link: WebLinkSpec,
+    url: string,
+    parts: WebLinkSpec["parts"],
+    canonicalUrl: string | undefined,
+): WebLinkSpec {
+    const rewritten: WebLinkSpec = { ...link, url, parts };
+    if (canonicalUrl !== undefined) {
+        rewritten.canonicalUrl = canonicalUrl;
+    }
+    if (link.risk !== undefined) {
+        rewritten.risk = assessLinkRisk(url, link.display ?? link.text);
+    }
+    return rewritten;
+}
+
+/**
+ * Applies a policy to links: the links it rejects are left out, and the ones it rewrites are
+ * replaced by copies with their new `url` and `parts`, and their `canonicalUrl` and `risk`
+ * updated when they have them. Rewrites are applied first, so an
+ * upgraded URL is checked against the schemes allowed as `https`.
+ *
+ * Domain rules apply to the hosts of web URLs, to the domains of email addresses, and to the
+ * hosts of the URLs of other links when they have one. Domains are compared in their ASCII form.
+ *
+ * @param links  the links, as found by {@link linkify}
+ * @param policy the rules to apply
+ * @return the links accepted and the reasons of the rejections and rewrites
+ * @throws TypeError if `maxUrlLength` isn't a positive integer
+ */
+export function applyLinkPolicy(links: readonly LinkSpec[], policy: LinkPolicy): PolicyResult {
+    const { maxUrlLength } = policy;
+    if (maxUrlLength !== undefined && !(Number.isInteger(maxUrlLength) && maxUrlLength > 0)) {
+        throw new TypeError("Invalid maximum URL length: " + maxUrlLength);
+    }
+    const allowSchemes = policy.allowSchemes?.map((scheme) =>
+        scheme.toLowerCase().replace(/:(\/\/)?$/, ""),
+    );
+    const allowDomains = policy.allowDomains?.map(normalizeDomain);
+    const denyDomains = policy.denyDomains?.map(normalizeDomain) ?? [];
+
+    const result: PolicyResult = { links: [], reasons: [] };
+    for (const found of links) {
+        const rewrites: PolicyCode[] = [];
+        let link = found;
+        if (
+            link.kind == "web" &&
+            link.parts.userInfo !== undefined &&
+            policy.credentials == "strip"
+        ) {
+            const authority = link.url.indexOf("//") + 2;
+            const url =
+                link.url.substring(0, authority) +
+                link.url.substring(authority + link.parts.userInfo.length + 1);
+            // The canonical URL has no user info already
+            const parts = { ...link.parts, userInfo: undefined };
+            link = rewriteLink(link, url, parts, link.canonicalUrl);
+            rewrites.push("credentials-stripped");
+        }
+        if (link.kind == "web" && link.parts.scheme == "http" && policy.upgradeHttp) {
+            const url = "https" + link.url.substring(4);
+            const parts = { ...link.parts, scheme: "https" };
+            const canonicalUrl =
+                link.canonicalUrl === undefined
+                    ? undefined
+                    : upgradeCanonicalUrl(link.canonicalUrl, link.parts.port);
+            link = rewriteLink(link, url, parts, canonicalUrl);
+            rewrites.push("https-upgraded");
+        }
+
+        const rejections: PolicyCode[] = [];
+        const scheme = SCHEME.exec(link.url)?.[1].toLowerCase();
+        if (allowSchemes !== undefined && scheme !== undefined && !allowSchemes.includes(scheme)) {
+            rejections.push("scheme");
+        }
+        if (
+            link.kind == "web" &&
+            link.parts.userInfo !== undefined &&
+            policy.credentials == "reject"
+        ) {
+            rejections.push("credentials");
+        }
+        const host = hostOf(link);
+        if (host !== undefined) {
+            if (policy.ipHosts === false && isIpHost(host)) {
+                rejections.push("ip-host");
+            }
+            const domain = normalizeDomain(host);
+            if (inDomains(domain, denyDomains)) {
+                rejections.push("denied-domain");
+            }
+            if (allowDomains !== undefined && !inDomains(domain, allowDomains)) {
+                rejections.push("unlisted-domain");
+            }
+        }
+        if (maxUrlLength !== undefined && link.url.length > maxUrlLength) {
+            rejections.push("too-long");
+        }
+
+        if (rejections.length > 0) {
+            for (const code of rejections) {
+                result.reasons.push({ code, action: "reject", link: found });
+            }
+            continue;
+        }
+        for (const code of rewrites) {
+            result.reasons.push({ code, action: "rewrite", link: found });
+        }
+        result.links.push(link);
+    }
+    return result;
+}
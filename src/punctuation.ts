@@ -0,0 +1,151 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PATH_AND_QUERY_START, PATH_CONTINUATION } from "./patterns";
+
+/**
+ * Punctuation ending a sentence or a clause rather than a URL, ASCII and full-width.
+ */
+const TRAILING_PUNCTUATION = new Set([...".,:;!?*…", ..."。、，．：；！？"]);
+
+/**
+ * Closing brackets and quotes with their opening counterpart. They end a URL only when they
+ * aren't balanced inside of it.
+ */
+const CLOSING_BRACKETS: Record<string, string> = {
+    ")": "(",
+    "]": "[",
+    "}": "{",
+    "）": "（",
+    "］": "［",
+    "｝": "｛",
+    "」": "「",
+    "』": "『",
+    "】": "【",
+    "〕": "〔",
+    "〉": "〈",
+    "》": "《",
+    "’": "‘",
+    "”": "“",
+    "»": "«",
+    "›": "‹",
+};
+
+/**
+ * Quotes that open and close with the same character. They end a URL when there is an odd number
+ * of them inside of it.
+ */
+const SYMMETRIC_QUOTES = new Set(["'", '"']);
+
+function count(s: string, start: number, end: number, c: string) {
+    let result = 0;
+    for (let i = start; i < end; i++) {
+        if (s.charAt(i) == c) {
+            result++;
+        }
+    }
+    return result;
+}
+
+/**
+ * Index of the `/` or `?` starting the path or query of a web URL, or -1 if it has neither.
+ * Everything after the scheme of a URL without an authority is its path.
+ */
+function findPathStart(url: string, schemes: readonly string[]) {
+    const lowerCase = url.toLowerCase();
+    const scheme = schemes.find((prefix) => lowerCase.startsWith(prefix));
+    if (scheme !== undefined && !scheme.endsWith("//")) {
+        return scheme.length;
+    }
+    let i = scheme?.length ?? 0;
+    const slash = url.indexOf("/", i);
+    const at = url.lastIndexOf("@", slash == -1 ? url.length : slash);
+    if (at >= i) {
+        i = at + 1;
+    }
+    const m = /[/?]/.exec(url.substring(i));
+    return m == null ? -1 : i + m.index;
+}
+
+/**
+ * Punctuation can't start a host name, but non-ASCII punctuation is allowed in the labels matched
+ * by the patterns. The bracket of an IPv6 literal is the exception.
+ */
+const LEADING_PUNCTUATION = /^(?!\[)\p{P}/u;
+
+/**
+ * Finds where a web URL matched in a text actually starts and ends.
+ *
+ * Leading punctuation is trimmed, like the full-width parenthesis or the quote the URL is in.
+ * The match is then extended with the path characters that follow it, as the patterns stop at a
+ * word boundary and leave a closing parenthesis that belongs to the URL out. Finally trailing
+ * sentence punctuation is trimmed, along with closing brackets and quotes that aren't balanced
+ * inside of the URL. The host is never trimmed from the end.
+ *
+ * @param s       the text the URL was matched in
+ * @param start   the index of the first character of the match, inclusive
+ * @param end     the index of the last character of the match, exclusive
+ * @param schemes the lowercase prefixes of the schemes of the URLs, like `http://` or `magnet:`
+ * @return the range of the URL, its end being exclusive
+ */
+export function findUrlRange(
+    s: string,
+    start: number,
+    end: number,
+    schemes: readonly string[],
+): [number, number] {
+    while (start < end - 1 && LEADING_PUNCTUATION.test(s.charAt(start))) {
+        start++;
+    }
+
+    const pathStart = findPathStart(s.substring(start, end), schemes);
+    const extension = new RegExp(pathStart == -1 ? PATH_AND_QUERY_START : PATH_CONTINUATION);
+    extension.lastIndex = end;
+    const m = extension.exec(s);
+    const floor = pathStart == -1 ? end : start + pathStart;
+    if (m != null) {
+        end += m[0].length;
+    }
+
+    // Counted once then kept up to date as characters are trimmed, as a URL may end with many
+    const counts = new Map<string, number>();
+    const countOf = (c: string) => {
+        let result = counts.get(c);
+        if (result === undefined) {
+            result = count(s, start, end, c);
+            counts.set(c, result);
+        }
+        return result;
+    };
+    while (end > floor) {
+        const c = s.charAt(end - 1);
+        const open = CLOSING_BRACKETS[c];
+        if (
+            TRAILING_PUNCTUATION.has(c) ||
+            (open !== undefined && countOf(c) > countOf(open)) ||
+            (SYMMETRIC_QUOTES.has(c) && (s.charAt(start - 1) == c || countOf(c) % 2 == 1))
+        ) {
+            end--;
+            const trimmed = counts.get(c);
+            if (trimmed !== undefined) {
+                counts.set(c, trimmed - 1);
+            }
+            continue;
+        }
+        break;
+    }
+    return [start, end];
+}
@@ -0,0 +1,249 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Parameters of the Punycode instance of Bootstring, RFC 3492 section 5
+const BASE = 36;
+const TMIN = 1;
+const TMAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 0x80;
+
+const MAX_INT = 0x7fffffff;
+
+const ACE_PREFIX = "xn--";
+
+/**
+ * Separators of labels, the full stop and its ideographic, full-width and half-width forms.
+ */
+const LABEL_SEPARATOR = /[.。．｡]/;
+
+const MAX_LABEL_LENGTH = 63;
+
+function overflow(): never {
+    throw new RangeError("Punycode overflow");
+}
+
+function adapt(delta: number, numPoints: number, firstTime: boolean) {
+    delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+    delta += Math.floor(delta / numPoints);
+    let k = 0;
+    while (delta > ((BASE - TMIN) * TMAX) >> 1) {
+        delta = Math.floor(delta / (BASE - TMIN));
+        k += BASE;
+    }
+    return k + Math.floor(((BASE - TMIN + 1) * delta) / (delta + SKEW));
+}
+
+function threshold(k: number, bias: number) {
+    return k <= bias ? TMIN : k >= bias + TMAX ? TMAX : k - bias;
+}
+
+function encodeDigit(d: number) {
+    // 0..25 map to a..z, 26..35 to 0..9
+    return String.fromCharCode(d < 26 ? d + 97 : d + 22);
+}
+
+function decodeDigit(c: number) {
+    if (c >= 0x30 && c <= 0x39) {
+        return c - 22;
+    }
+    if (c >= 0x41 && c <= 0x5a) {
+        return c - 0x41;
+    }
+    if (c >= 0x61 && c <= 0x7a) {
+        return c - 0x61;
+    }
+    return BASE;
+}
+
+/**
+ * Encodes a string with Punycode, as defined in RFC 3492.
+ *
+ * @param input the string to encode, a single label
+ * @return the encoded string, without the `xn--` prefix
+ * @throws RangeError if the string can't be encoded
+ */
+export function encode(input: string): string {
+    const codePoints = Array.from(input, (c) => c.codePointAt(0)!);
+    let output = "";
+    for (const c of codePoints) {
+        if (c < INITIAL_N) {
+            output += String.fromCharCode(c);
+        }
+    }
+    const basicLength = output.length;
+    if (basicLength > 0) {
+        output += "-";
+    }
+
+    let n = INITIAL_N;
+    let delta = 0;
+    let bias = INITIAL_BIAS;
+    let handled = basicLength;
+    while (handled < codePoints.length) {
+        let m = MAX_INT;
+        for (const c of codePoints) {
+            if (c >= n && c < m) {
+                m = c;
+            }
+        }
+        if (m - n > Math.floor((MAX_INT - delta) / (handled + 1))) {
+            overflow();
+        }
+        delta += (m - n) * (handled + 1);
+        n = m;
+
+        for (const c of codePoints) {
+            if (c < n && ++delta > MAX_INT) {
+                overflow();
+            }
+            if (c == n) {
+                let q = delta;
+                for (let k = BASE; ; k += BASE) {
+                    const t = threshold(k, bias);
+                    if (q < t) {
+                        break;
+                    }
+                    output += encodeDigit(t + ((q - t) % (BASE - t)));
+                    q = Math.floor((q - t) / (BASE - t));
+                }
+                output += encodeDigit(q);
+                bias = adapt(delta, handled + 1, handled == basicLength);
+                delta = 0;
+                handled++;
+            }
+        }
+        delta++;
+        n++;
+    }
+    return output;
+}
+
+/**
+ * Decodes a string encoded with Punycode, as defined in RFC 3492.
+ *
+ * @param input the encoded string, without the `xn--` prefix
+ * @return the decoded string
+ * @throws RangeError if the string isn't valid Punycode
+ */
+export function decode(input: string): string {
+    const output: number[] = [];
+    const basicLength = Math.max(input.lastIndexOf("-"), 0);
+    for (let j = 0; j < basicLength; j++) {
+        const c = input.charCodeAt(j);
+        if (c >= INITIAL_N) {
+            throw new RangeError("Invalid Punycode: " + JSON.stringify(input));
+        }
+        output.push(c);
+    }
+
+    let n = INITIAL_N;
+    let bias = INITIAL_BIAS;
+    let i = 0;
+    let index = basicLength > 0 ? basicLength + 1 : 0;
+    while (index < input.length) {
+        const oldi = i;
+        let w = 1;
+        for (let k = BASE; ; k += BASE) {
+            if (index >= input.length) {
+                throw new RangeError("Invalid Punycode: " + JSON.stringify(input));
+            }
+            const digit = decodeDigit(input.charCodeAt(index++));
+            if (digit >= BASE) {
+                throw new RangeError("Invalid Punycode: " + JSON.stringify(input));
+            }
+            if (digit > Math.floor((MAX_INT - i) / w)) {
+                overflow();
+            }
+            i += digit * w;
+            const t = threshold(k, bias);
+            if (digit < t) {
+                break;
+            }
+            if (w > Math.floor(MAX_INT / (BASE - t))) {
+                overflow();
+            }
+            w *= BASE - t;
+        }
+
+        const length = output.length + 1;
+        bias = adapt(i - oldi, length, oldi == 0);
+        if (Math.floor(i / length) > MAX_INT - n) {
+            overflow();
+        }
+        n += Math.floor(i / length);
+        i %= length;
+        if (n > 0x10ffff || (n >= 0xd800 && n <= 0xdfff)) {
+            throw new RangeError("Invalid Punycode: " + JSON.stringify(input));
+        }
+        output.splice(i++, 0, n);
+    }
+    return String.fromCodePoint(...output);
+}
+
+function isAscii(s: string) {
+    return /^[\u0000-\u007F]*$/.test(s);
+}
+
+/**
+ * Converts a domain name to its ASCII form, as for the ToASCII operation of UTS 46: labels are
+ * mapped to lowercase and compatibility forms, then the non-ASCII ones are encoded with Punycode
+ * and prefixed by `xn--`. Ideographic and full-width full stops separate labels too.
+ *
+ * @param domain the domain name, in Unicode or ASCII
+ * @return the ASCII domain name
+ * @throws RangeError if a label can't be converted or is too long
+ */
+export function toASCII(domain: string): string {
+    return domain
+        .split(LABEL_SEPARATOR)
+        .map((label) => {
+            const mapped = label.normalize("NFKC").toLowerCase();
+            const ascii = isAscii(mapped) ? mapped : ACE_PREFIX + encode(mapped);
+            if (ascii.length > MAX_LABEL_LENGTH) {
+                throw new RangeError("Label too long: " + JSON.stringify(label));
+            }
+            return ascii;
+        })
+        .join(".");
+}
+
+/**
+ * Converts the `xn--` labels of a domain name back to Unicode. Other labels, and the ones that
+ * aren't valid Punycode or wouldn't be encoded the same way, are left as is.
+ *
+ * @param domain the domain name, in ASCII or Unicode
+ * @return the Unicode domain name
+ */
+export function toUnicode(domain: string): string {
+    return domain
+        .split(".")
+        .map((label) => {
+            if (label.slice(0, ACE_PREFIX.length).toLowerCase() != ACE_PREFIX) {
+                return label;
+            }
+            const encoded = label.slice(ACE_PREFIX.length).toLowerCase();
+            try {
+                const decoded = decode(encoded);
+                return !isAscii(decoded) && encode(decoded) == encoded ? decoded : label;
+            } catch {
+                return label;
+            }
+        })
+        .join(".");
+}
@@ -0,0 +1,222 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { toASCII, toUnicode } from "./punycode";
+
+/**
+ * Why a link may be deceptive:
+ * - `mixed-script`: a label of the host mixes scripts, like a Cyrillic `а` in a Latin name,
+ * - `confusable`: a label of the host is written in a script other than Latin, but only with
+ *   letters that look like Latin ones, like `аррӏе`,
+ * - `invisible`: the link contains an invisible character, like a zero-width space,
+ * - `userinfo`: the URL has a user info, as in `https://google.com@evil.example`,
+ * - `display-mismatch`: the host shown differs from the host of the URL.
+ */
+export type RiskCode =
+    "mixed-script" | "confusable" | "invisible" | "userinfo" | "display-mismatch";
+
+export interface RiskReason {
+    code: RiskCode;
+    /**
+     * What the reason is about: the host label, the invisible character as `U+200B`, the user
+     * info, or the host shown
+     */
+    detail: string;
+}
+
+/**
+ * The risk assessment of a link.
+ */
+export interface LinkRisk {
+    /** Why the link may be deceptive, empty when nothing was found */
+    reasons: RiskReason[];
+}
+
+/**
+ * Scripts told apart when looking for mixed-script labels. Characters of other scripts are
+ * considered to be of a single unknown script.
+ */
+const SCRIPTS = [
+    "Latin",
+    "Greek",
+    "Cyrillic",
+    "Armenian",
+    "Hebrew",
+    "Arabic",
+    "Syriac",
+    "Thaana",
+    "Devanagari",
+    "Bengali",
+    "Gurmukhi",
+    "Gujarati",
+    "Oriya",
+    "Tamil",
+    "Telugu",
+    "Kannada",
+    "Malayalam",
+    "Sinhala",
+    "Thai",
+    "Lao",
+    "Tibetan",
+    "Myanmar",
+    "Georgian",
+    "Hangul",
+    "Ethiopic",
+    "Cherokee",
+    "Canadian_Aboriginal",
+    "Khmer",
+    "Mongolian",
+    "Hiragana",
+    "Katakana",
+    "Bopomofo",
+    "Han",
+].map((name) => ({ name, pattern: new RegExp("\\p{Script_Extensions=" + name + "}", "u") }));
+
+/**
+ * Scripts that are written together, as the augmented script sets of UTS 39 section 5.1.
+ */
+const AUGMENTED_SCRIPTS: Record<string, string[]> = {
+    Han: ["Jpan", "Kore", "Hanb"],
+    Hiragana: ["Jpan"],
+    Katakana: ["Jpan"],
+    Hangul: ["Kore"],
+    Bopomofo: ["Hanb"],
+};
+
+const COMMON_OR_INHERITED = /[\p{Script_Extensions=Common}\p{Script_Extensions=Inherited}]/u;
+
+/**
+ * Labels made only of these letters can pass for Latin ones, like Cyrillic `аррӏе` for `apple`.
+ */
+const LATIN_LOOKALIKES: Record<string, RegExp> = {
+    Cyrillic: /^[аԁеһіјӏорԛѕсуԝхүѵ]+$/u,
+    Greek: /^[αικνορυχ]+$/u,
+    Armenian: /^[հոսօց]+$/u,
+};
+
+const INVISIBLE = /\p{Default_Ignorable_Code_Point}/gu;
+
+/**
+ * The user info and host of a URL, an email address or the text of a link.
+ */
+const AUTHORITY =
+    /^(?:[a-zA-Z][a-zA-Z0-9+.\-]*:\/\/|mailto:)?(?:([^@/?#\s]*)@)?(\[[^\]]*\]|[^:/?#\s]*)/i;
+
+const HIERARCHICAL_URL = /^[a-zA-Z][a-zA-Z0-9+.\-]*:\/\//;
+
+/**
+ * The scripts a label is written in, as the resolved script set of UTS 39 section 5.1: empty
+ * when it mixes scripts, undefined when it has no character specific to a script.
+ */
+function resolveScripts(label: string): Set<string> | undefined {
+    let resolved: Set<string> | undefined;
+    for (const c of label) {
+        if (COMMON_OR_INHERITED.test(c)) {
+            continue;
+        }
+        const scripts = new Set<string>();
+        for (const script of SCRIPTS) {
+            if (script.pattern.test(c)) {
+                scripts.add(script.name);
+                for (const augmented of AUGMENTED_SCRIPTS[script.name] ?? []) {
+                    scripts.add(augmented);
+                }
+            }
+        }
+        if (scripts.size == 0) {
+            scripts.add("Unknown");
+        }
+        resolved =
+            resolved === undefined ? scripts : new Set([...resolved].filter((s) => scripts.has(s)));
+    }
+    return resolved;
+}
+
+function normalizeHost(host: string) {
+    let ascii: string;
+    try {
+        ascii = toASCII(host);
+    } catch {
+        ascii = host.toLowerCase();
+    }
+    return ascii.replace(/\.$/, "");
+}
+
+function checkLabels(host: string, reasons: RiskReason[]) {
+    if (host.startsWith("[")) {
+        return;
+    }
+    for (const label of toUnicode(host).split(".")) {
+        if (/^[\u0000-\u007F]*$/.test(label)) {
+            continue;
+        }
+        const scripts = resolveScripts(label);
+        if (scripts === undefined) {
+            continue;
+        }
+        if (scripts.size == 0) {
+            reasons.push({ code: "mixed-script", detail: label });
+            continue;
+        }
+        const letters = label.toLowerCase().replace(/[\p{N}\p{P}\p{M}]/gu, "");
+        for (const script of scripts) {
+            if (LATIN_LOOKALIKES[script]?.test(letters)) {
+                reasons.push({ code: "confusable", detail: label });
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Assesses whether a link may be deceptive: it checks its host for labels that mix scripts or
+ * can pass for Latin ones, and the link for invisible characters, user info, and a display text
+ * showing another host than the one of the URL.
+ *
+ * @param url     the URL of the link, with its scheme, like the `url` of a link spec
+ * @param display the text shown for the link, like its `text` or the content of an anchor
+ * @return the reasons why the link may be deceptive
+ */
+export function assessLinkRisk(url: string, display?: string): LinkRisk {
+    const reasons: RiskReason[] = [];
+    const [, userInfo, host] = AUTHORITY.exec(url)!;
+
+    checkLabels(host, reasons);
+
+    const invisible = new Set<string>();
+    for (const m of (url + " " + (display ?? "")).matchAll(INVISIBLE)) {
+        invisible.add("U+" + m[0].codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0"));
+    }
+    for (const c of invisible) {
+        reasons.push({ code: "invisible", detail: c });
+    }
+
+    if (userInfo !== undefined && HIERARCHICAL_URL.test(url)) {
+        reasons.push({ code: "userinfo", detail: userInfo });
+    }
+
+    if (display !== undefined) {
+        const [, , shownHost] = AUTHORITY.exec(display.trim())!;
+        if (
+            shownHost.includes(".") &&
+            host != "" &&
+            normalizeHost(shownHost) != normalizeHost(host)
+        ) {
+            reasons.push({ code: "display-mismatch", detail: shownHost });
+        }
+    }
+    return { reasons };
+}
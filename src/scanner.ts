@@ -0,0 +1,130 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type WebUrlPatternOptions, webUrlScannerPatterns } from "./patterns";
+
+/**
+ * Finds the matches of a pattern in a text: the function it returns for a text gives the first
+ * match starting at or after an index, or null if there is none.
+ *
+ * @hide
+ */
+export type Scanner = (s: string) => (from: number) => RegExpExecArray | null;
+
+/**
+ * A scanner finding the matches of a regular expression, as repeated calls to `exec` would.
+ *
+ * @hide
+ */
+export function regExpScanner(pattern: RegExp): Scanner {
+    // Work on a copy so that the pattern doesn't need the g flag and its lastIndex is left alone,
+    // without the y flag that would only match at the index searched from
+    const flags = pattern.flags.replace(/[gy]/g, "") + "g";
+    return (s) => {
+        const matcher = new RegExp(pattern.source, flags);
+        return (from) => {
+            matcher.lastIndex = from;
+            return matcher.exec(s);
+        };
+    };
+}
+
+function execAt(pattern: RegExp, s: string, index: number) {
+    pattern.lastIndex = index;
+    return pattern.exec(s);
+}
+
+function matchOf(s: string, start: number, end: number): RegExpExecArray {
+    return Object.assign([s.substring(start, end)] as [string], {
+        index: start,
+        input: s,
+        groups: undefined,
+    });
+}
+
+/**
+ * Compiles a scanner finding the same web URLs as the pattern {@link autolinkWebUrl} builds, in a
+ * time linear in the length of the text.
+ *
+ * The pattern matches the labels of a text like `a.a.a.a…` again from each of them, and tries
+ * every way of splitting the host of `http://aaaa…_` in labels, taking a time quadratic and
+ * exponential in their length. The scanner only tries the positions where a URL can start, in
+ * the order of the alternatives of the pattern. For host names without a scheme, it remembers
+ * where the host names starting at each label end, so the labels of a text are matched once.
+ * Hosts after a scheme are matched as runs of labels that can't be split in several ways, which
+ * only differs for labels with a `-` or `_` longer than 63 characters.
+ *
+ * @hide
+ */
+export function compileWebUrlScanner(options: WebUrlPatternOptions): Scanner {
+    const { start, withScheme, firstLabel, label, hostEnd, otherHosts } =
+        webUrlScannerPatterns(options);
+    return (s) => {
+        const starts = new RegExp(start);
+        // The end of the host name, with its port and path, starting at a label after a dot
+        const hostEnds = new Map<number, number | undefined>();
+
+        const nextLabel = (index: number) => {
+            const m = execAt(label, s, index);
+            return m == null ? undefined : index + m[0].length;
+        };
+
+        // The host name is the longest of the ones ending with a top-level domain, so the labels
+        // following each other are walked up to the last one before resolving them backward.
+        const findHostEnd = (index: number) => {
+            const labels: number[] = [];
+            let i: number | undefined = index;
+            while (i !== undefined && !hostEnds.has(i)) {
+                labels.push(i);
+                i = nextLabel(i);
+            }
+            let end = i === undefined ? undefined : hostEnds.get(i);
+            for (let k = labels.length - 1; k >= 0; k--) {
+                if (end === undefined) {
+                    const m = execAt(hostEnd, s, labels[k]);
+                    end = m == null ? undefined : labels[k] + m[0].length;
+                }
+                hostEnds.set(labels[k], end);
+            }
+            return end;
+        };
+
+        return (from) => {
+            starts.lastIndex = from;
+            let candidate: RegExpExecArray | null;
+            while ((candidate = starts.exec(s)) != null) {
+                const i = candidate.index;
+                const m = execAt(withScheme, s, i);
+                if (m != null) {
+                    return m;
+                }
+                const first = execAt(firstLabel, s, i);
+                if (first != null) {
+                    const end = findHostEnd(i + first[0].length);
+                    if (end !== undefined) {
+                        return matchOf(s, i, end);
+                    }
+                }
+                const other = execAt(otherHosts, s, i);
+                if (other != null) {
+                    return other;
+                }
+                starts.lastIndex = i + (s.codePointAt(i)! > 0xffff ? 2 : 1);
+            }
+            return null;
+        };
+    };
+}
@@ -0,0 +1,169 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type Trace, addCandidate, toSpan } from "./explain";
+import { type Budget, isExhausted } from "./limits";
+import type { TransformFilter } from "./linkify";
+import type { LinkSpec, TagLinkSpec } from "./LinkSpec";
+
+/**
+ * How mentions, hashtags or cashtags are found and linked.
+ */
+export interface TagOptions {
+    /**
+     * URL of the links, in which `{name}` is replaced by the name, URI-encoded, like
+     * `https://app.example/u/{name}`. Tags have no URL of their own, so either this or
+     * `transformFilter` is required.
+     */
+    urlTemplate?: string;
+
+    /**
+     * Builds the URL of the links from the match, whose group 1 is the name, instead of
+     * `urlTemplate`.
+     */
+    transformFilter?: TransformFilter;
+
+    /** Minimum length of the name, 1 by default */
+    minLength?: number;
+
+    /**
+     * Maximum length of the name, 15 for mentions, 100 for hashtags and 6 for cashtags by default.
+     * Longer names aren't linked at all.
+     */
+    maxLength?: number;
+}
+
+export type TagKind = TagLinkSpec["kind"];
+
+const DEFAULT_MAX_LENGTHS: Record<TagKind, number> = {
+    mention: 15,
+    hashtag: 100,
+    cashtag: 6,
+};
+
+const HASHTAG_CHAR = "[\\p{L}\\p{M}\\p{Nd}_]";
+
+function tagPattern(kind: TagKind, min: number, max: number) {
+    const length = "{" + min + "," + max + "}";
+    switch (kind) {
+        case "mention":
+            // As usernames of social platforms, not preceded by what would make it part of an
+            // email address and not followed by a domain or a scheme
+            return new RegExp(
+                "(?<![\\p{L}\\p{M}\\p{Nd}_!#$%&*@＠])[@＠]([a-zA-Z0-9_]" +
+                    length +
+                    ")(?![a-zA-Z0-9_@＠]|\\p{L}|:\\/\\/)",
+                "gu",
+            );
+        case "hashtag":
+            // Letters of any script, not preceded by a word character or `&` as in `&#39;`
+            return new RegExp(
+                "(?<![\\p{L}\\p{M}\\p{Nd}_&])[#＃](" +
+                    HASHTAG_CHAR +
+                    length +
+                    ")(?!" +
+                    HASHTAG_CHAR +
+                    "|[#＃]|:\\/\\/)",
+                "gu",
+            );
+        case "cashtag":
+            // Ticker symbols, optionally with a class or market suffix like `$BRK.A`
+            return new RegExp(
+                "(?<!\\S)\\$([a-zA-Z]" + length + "(?:[._][a-zA-Z]{1,2})?)(?=$|\\s|\\p{P})",
+                "gu",
+            );
+    }
+}
+
+function makeUrl(match: RegExpExecArray, options: TagOptions) {
+    if (options.transformFilter !== undefined) {
+        return options.transformFilter(match, match[0]);
+    }
+    return options.urlTemplate!.replaceAll("{name}", encodeURIComponent(match[1]));
+}
+
+/**
+ * Finds the mentions, hashtags or cashtags of a text, leaving out the ones overlapping a web URL
+ * or an email address.
+ *
+ * @param links    the array to add the links to
+ * @param text     the text to search
+ * @param kind     the kind of tags to find
+ * @param options  how to find and link them
+ * @param excluded web URLs and email addresses of the text, sorted by start
+ * @param trace    where to report the tags found
+ * @param budget   the limits of the search, checked between tags
+ * @throws TypeError if the options have no URL template or invalid length limits
+ * @hide
+ */
+export function gatherTagLinks(
+    links: LinkSpec[],
+    text: string,
+    kind: TagKind,
+    options: TagOptions | undefined,
+    excluded: readonly LinkSpec[],
+    trace?: Trace,
+    budget?: Budget,
+) {
+    if (options?.urlTemplate === undefined && options?.transformFilter === undefined) {
+        // The text of the tag would be a relative URL
+        throw new TypeError("Missing URL template of " + kind + "s");
+    }
+    const min = options.minLength ?? 1;
+    const max = options.maxLength ?? DEFAULT_MAX_LENGTHS[kind];
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 1 || max < min) {
+        throw new TypeError("Invalid length limits of " + kind + "s: " + min + ", " + max);
+    }
+    const pattern = tagPattern(kind, min, max);
+
+    let e = 0;
+    let m: RegExpExecArray | null;
+    while (!isExhausted(budget) && (m = pattern.exec(text)) != null) {
+        const start = m.index;
+        const end = start + m[0].length;
+        const name = m[1];
+        const candidate = { kind, start, end, text: m[0] };
+        if (kind == "hashtag" && !/\p{L}/u.test(name)) {
+            // Numbers like #1 are not hashtags
+            addCandidate(trace, candidate, undefined, "no-letter");
+            continue;
+        }
+        while (e < excluded.length && excluded[e].end <= start) {
+            e++;
+        }
+        let overlapped: LinkSpec | undefined;
+        for (let i = e; i < excluded.length && excluded[i].start < end; i++) {
+            if (excluded[i].end > start) {
+                overlapped ??= excluded[i];
+            }
+        }
+        if (overlapped !== undefined) {
+            addCandidate(trace, { ...candidate, by: toSpan(overlapped) }, undefined, "inside-link");
+            continue;
+        }
+        const link: TagLinkSpec = {
+            kind,
+            url: makeUrl(m, options),
+            start,
+            end,
+            text: m[0],
+            schemeAdded: false,
+            parts: { name },
+        };
+        links.push(link);
+        addCandidate(trace, candidate, link);
+    }
+}
@@ -0,0 +1,153 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ALL, type AutoLinkOptions, BIDI_CONTROL, linkify } from "./linkify";
+import type { Segment } from "./tokenize";
+
+/**
+ * A linkifier fed with a text chunk by chunk, see {@link createLinkifyStream}.
+ */
+export interface LinkifyStream {
+    /**
+     * Adds a chunk to the text.
+     *
+     * @param chunk the next part of the text
+     * @return the segments that became final, possibly none
+     */
+    push(chunk: string): Segment[];
+
+    /**
+     * Ends the text.
+     *
+     * @return the segments of the text held back until now
+     */
+    flush(): Segment[];
+}
+
+/**
+ * Separators that none of the built-in detectors match across. Spaces are also part of phone
+ * numbers, so they only separate when they don't follow a character of one.
+ */
+const LINE_WHITESPACE = /[\t\n\v\f\r]/;
+const PHONE_NUMBER_CHAR = /[0-9()+\-.]/;
+
+/**
+ * Whether no link can contain the character at index `i` of the text, whatever precedes the
+ * text or follows it. Bidi controls are skipped as they may be stripped.
+ *
+ * @hide
+ */
+export function isSeparator(text: string, i: number) {
+    const c = text.charAt(i);
+    if (c != " ") {
+        return LINE_WHITESPACE.test(c);
+    }
+    let j = i - 1;
+    while (j >= 0 && (text.charAt(j) == " " || BIDI_CONTROL.test(text.charAt(j)))) {
+        j--;
+    }
+    // The text held always starts after a separator, or at the start of the stream
+    return j < 0 || !PHONE_NUMBER_CHAR.test(text.charAt(j));
+}
+
+/**
+ * Creates a linkifier for a text that arrives in chunks, like a response rendered as it's
+ * generated. Segments are returned as soon as they can't change anymore: only the end of the text
+ * after its last separating whitespace is held back, as it could still become or extend a link.
+ *
+ * Joining the values of all the segments gives back the text. The links have their `start` and
+ * `end` in the whole text, and are the same as {@link addAutoLinks} finds in it with the built-in
+ * detectors. A custom `phoneNumberMatcher` must not find numbers across line breaks and tabs.
+ *
+ * The `reject` policy for bidi controls would need the whole text before finding any link, so
+ * `bidiControls` defaults to `exclude` instead.
+ *
+ * @param mask    mask to define which kinds of links will be searched
+ * @param options options used while identifying links, as for {@link addAutoLinks}
+ * @return the stream to push chunks to
+ * @throws TypeError if `bidiControls` is `reject`
+ */
+export function createLinkifyStream(mask?: number, options?: AutoLinkOptions): LinkifyStream {
+    if (options?.bidiControls == "reject") {
+        throw new TypeError("Bidi controls can't be rejected when streaming");
+    }
+    const linkifyOptions = {
+        bidiControls: "exclude" as const,
+        ...options,
+        mask: mask ?? ALL,
+        trimPunctuation: false,
+    };
+
+    // The text from `held` on, after the separator that precedes it when there is one
+    let buffer = "";
+    let bufferStart = 0;
+    let held = 0;
+
+    const text = (start: number, end: number) =>
+        buffer.substring(start - bufferStart, end - bufferStart);
+
+    const release = (end: number) => {
+        const segments: Segment[] = [];
+        const links = linkify(buffer.substring(0, end - bufferStart), linkifyOptions);
+        let position = held;
+        for (const link of links) {
+            link.start += bufferStart;
+            link.end += bufferStart;
+            if (link.start < position) {
+                continue;
+            }
+            if (link.start > position) {
+                segments.push({ type: "text", value: text(position, link.start) });
+            }
+            segments.push({
+                type: "link",
+                value: link.text,
+                href: link.url,
+                kind: link.kind,
+                link,
+            });
+            position = link.end;
+        }
+        if (end > position) {
+            segments.push({ type: "text", value: text(position, end) });
+        }
+
+        // Keep the separator before the text held, for the lookbehinds of the patterns
+        const keep = Math.max(end - 1, bufferStart);
+        buffer = buffer.substring(keep - bufferStart);
+        bufferStart = keep;
+        held = end;
+        return segments;
+    };
+
+    return {
+        push(chunk) {
+            const scanned = buffer.length;
+            buffer += chunk;
+            for (let i = buffer.length - 1; i >= scanned; i--) {
+                if (isSeparator(buffer, i)) {
+                    return release(bufferStart + i + 1);
+                }
+            }
+            return [];
+        },
+
+        flush() {
+            const end = bufferStart + buffer.length;
+            return end > held ? release(end) : [];
+        },
+    };
+}
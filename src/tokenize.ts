@@ -0,0 +1,82 @@
+/*
+ * Copyright (C) 2019 Julien Roncaglia <julien@roncaglia.fr>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type LinkifyOptions, linkify } from "./linkify";
+import type { LinkKind, LinkSpec } from "./LinkSpec";
+
+export interface TextSegment {
+    type: "text";
+    value: string;
+}
+
+export interface LinkSegment {
+    type: "link";
+    /** The text of the link */
+    value: string;
+    /** The URL of the link */
+    href: string;
+    kind: LinkKind;
+    /** The link this segment was made from */
+    link: LinkSpec;
+}
+
+export type Segment = TextSegment | LinkSegment;
+
+/**
+ * Splits a text in segments around links. Links overlapping a previous one are ignored, so are
+ * links outside of the text.
+ *
+ * @param text  the text the links were found in
+ * @param links the links found in the text
+ * @return segments covering all of the text, in order, none of them empty
+ */
+export function toSegments(text: string, links: readonly LinkSpec[]): Segment[] {
+    const sorted = [...links].sort((a, b) => a.start - b.start);
+    const segments: Segment[] = [];
+    let position = 0;
+    for (const link of sorted) {
+        if (link.start < position || link.end > text.length || link.start >= link.end) {
+            continue;
+        }
+        if (link.start > position) {
+            segments.push({ type: "text", value: text.substring(position, link.start) });
+        }
+        segments.push({
+            type: "link",
+            value: text.substring(link.start, link.end),
+            href: link.url,
+            kind: link.kind,
+            link,
+        });
+        position = link.end;
+    }
+    if (position < text.length) {
+        segments.push({ type: "text", value: text.substring(position) });
+    }
+    return segments;
+}
+
+/**
+ * Finds the links in a text and splits it in text and link segments, ready to be mapped to
+ * elements by a component framework. Joining the values of the segments gives back the text.
+ *
+ * @param text    the text to search for links
+ * @param options which links to search for and how, as for {@link linkify}
+ * @return segments covering all of the text, in order, none of them empty
+ */
+export function tokenize(text: string, options?: LinkifyOptions): Segment[] {
+    return toSegments(text, linkify(text, { ...options, offsetUnit: "utf16" }));
+}